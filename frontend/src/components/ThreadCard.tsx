@@ -0,0 +1,155 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Chip,
+  Avatar,
+  Tooltip,
+} from '@mui/material';
+import { AttachFile as AttachFileIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+
+interface Thread {
+  id: number;
+  subject: string;
+  participants: string[];
+  messageCount: number;
+  unreadCount: number;
+  hasAttachments: boolean;
+  lastMessageAt: string;
+  latestEmailId: string;
+  latestFromName: string;
+  latestFromEmail: string;
+  snippet: string;
+  category: string | null;
+  categoryConfidence: number | null;
+  accountName: string | null;
+}
+
+interface ThreadCardProps {
+  thread: Thread;
+}
+
+const getCategoryColor = (category: string | null) => {
+  switch (category) {
+    case 'Interested':
+      return 'success';
+    case 'Meeting Booked':
+      return 'primary';
+    case 'Not Interested':
+      return 'error';
+    case 'Out of Office':
+      return 'warning';
+    default:
+      return 'default';
+  }
+};
+
+export const ThreadCard: React.FC<ThreadCardProps> = ({ thread }) => {
+  const navigate = useNavigate();
+  const isUnread = thread.unreadCount > 0;
+  const sender = thread.latestFromName || thread.latestFromEmail;
+
+  // The detail page shows the whole conversation around the latest message
+  const handleCardClick = () => {
+    navigate(`/emails/${thread.latestEmailId}`);
+  };
+
+  return (
+    <Card
+      sx={{
+        cursor: 'pointer',
+        transition: 'all 0.2s ease-in-out',
+        '&:hover': {
+          boxShadow: 3,
+          transform: 'translateY(-2px)',
+        },
+        opacity: isUnread ? 1 : 0.7,
+      }}
+      onClick={handleCardClick}
+    >
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+          <Avatar sx={{ bgcolor: 'primary.main', mt: 0.5 }}>
+            {(sender || '?').charAt(0).toUpperCase()}
+          </Avatar>
+
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography
+                variant="h6"
+                sx={{
+                  fontWeight: isUnread ? 600 : 400,
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                  flex: 1,
+                }}
+              >
+                {thread.subject || 'No Subject'}
+              </Typography>
+              {thread.messageCount > 1 && (
+                <Chip label={thread.messageCount} size="small" />
+              )}
+              {thread.hasAttachments && (
+                <Tooltip title="Has attachments">
+                  <AttachFileIcon fontSize="small" color="action" />
+                </Tooltip>
+              )}
+              {thread.category && (
+                <Chip
+                  label={thread.category}
+                  size="small"
+                  color={getCategoryColor(thread.category) as any}
+                  variant="outlined"
+                />
+              )}
+            </Box>
+
+            <Typography
+              variant="body2"
+              color="text.secondary"
+              sx={{ mb: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            >
+              {thread.participants.join(', ')}
+            </Typography>
+
+            <Typography
+              variant="body2"
+              sx={{
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                display: '-webkit-box',
+                WebkitLineClamp: 2,
+                WebkitBoxOrient: 'vertical',
+                mb: 1,
+              }}
+            >
+              <strong>{sender}:</strong> {thread.snippet}
+            </Typography>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="caption" color="text.secondary">
+                {format(new Date(thread.lastMessageAt), 'MMM d, yyyy HH:mm')}
+              </Typography>
+              {thread.accountName && (
+                <Chip
+                  label={thread.accountName}
+                  size="small"
+                  variant="outlined"
+                  color="info"
+                />
+              )}
+              {isUnread && (
+                <Chip label={`${thread.unreadCount} unread`} size="small" color="primary" variant="outlined" />
+              )}
+            </Box>
+          </Box>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
@@ -13,6 +13,9 @@ import {
   Paper,
   IconButton,
   Tooltip,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
 } from '@mui/material';
 import {
   ArrowBack as ArrowBackIcon,
@@ -22,10 +25,12 @@ import {
   MarkEmailUnread as UnreadIcon,
   Reply as ReplyIcon,
   Refresh as RefreshIcon,
+  Download as DownloadIcon,
+  ExpandMore as ExpandMoreIcon,
 } from '@mui/icons-material';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
-import { emailAPI, aiAPI } from '../services/api';
+import { emailAPI, aiAPI, threadAPI } from '../services/api';
 import { format } from 'date-fns';
 import ReactMarkdown from 'react-markdown';
 import toast from 'react-hot-toast';
@@ -44,12 +49,24 @@ export const EmailDetail: React.FC = () => {
     }
   );
 
+  const threadId = email?.data?.data?.thread_id;
+
+  const { data: thread } = useQuery(
+    ['thread', threadId],
+    () => threadAPI.getThread(threadId),
+    {
+      enabled: !!threadId,
+    }
+  );
+
   const updateEmailMutation = useMutation(
     (updates: any) => emailAPI.updateEmail(id!, updates),
     {
       onSuccess: () => {
         queryClient.invalidateQueries(['email', id]);
         queryClient.invalidateQueries('emails');
+        queryClient.invalidateQueries('threads');
+        queryClient.invalidateQueries(['thread', threadId]);
         toast.success('Email updated successfully');
       },
       onError: () => {
@@ -134,6 +151,7 @@ export const EmailDetail: React.FC = () => {
   }
 
   const emailData = email.data;
+  const conversation = thread?.data?.data?.messages || [];
 
   return (
     <Box sx={{ p: 3 }}>
@@ -166,6 +184,11 @@ export const EmailDetail: React.FC = () => {
               <ReplyIcon />
             </IconButton>
           </Tooltip>
+          <Tooltip title="Download original (.eml)">
+            <IconButton href={emailAPI.getRawEmailUrl(id!)}>
+              <DownloadIcon />
+            </IconButton>
+          </Tooltip>
         </Box>
       </Box>
 
@@ -219,18 +242,57 @@ export const EmailDetail: React.FC = () => {
 
               <Divider sx={{ my: 2 }} />
 
-              <Box sx={{ mb: 2 }}>
-                <Typography variant="h6" gutterBottom>
-                  Message
-                </Typography>
-                <Paper sx={{ p: 2, bgcolor: 'grey.50' }}>
-                  {emailData.bodyHtml ? (
-                    <div dangerouslySetInnerHTML={{ __html: emailData.bodyHtml }} />
-                  ) : (
-                    <ReactMarkdown>{emailData.bodyText || 'No content'}</ReactMarkdown>
-                  )}
-                </Paper>
-              </Box>
+              {conversation.length > 1 ? (
+                <Box sx={{ mb: 2 }}>
+                  <Typography variant="h6" gutterBottom>
+                    Conversation ({conversation.length} messages)
+                  </Typography>
+                  {conversation.map((message: any) => (
+                    <Accordion key={message.id} defaultExpanded={String(message.id) === id} disableGutters>
+                      <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flex: 1, minWidth: 0 }}>
+                          <Typography variant="subtitle2" sx={{ fontWeight: message.isRead ? 400 : 600 }} noWrap>
+                            {message.fromName || message.fromEmail}
+                          </Typography>
+                          {message.folderRole === 'sent' ? (
+                            <Chip label="Sent" size="small" variant="outlined" />
+                          ) : (
+                            <Chip label={message.aiCategory} size="small" variant="outlined" />
+                          )}
+                          <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto', mr: 1 }}>
+                            {format(new Date(message.date), 'PPP p')}
+                          </Typography>
+                        </Box>
+                      </AccordionSummary>
+                      <AccordionDetails>
+                        <Typography variant="body2" color="text.secondary" gutterBottom>
+                          To: {message.toEmails.join(', ')}
+                        </Typography>
+                        <Paper sx={{ p: 2, bgcolor: 'grey.50' }}>
+                          {message.bodyHtml ? (
+                            <div dangerouslySetInnerHTML={{ __html: message.bodyHtml }} />
+                          ) : (
+                            <ReactMarkdown>{message.bodyText || 'No content'}</ReactMarkdown>
+                          )}
+                        </Paper>
+                      </AccordionDetails>
+                    </Accordion>
+                  ))}
+                </Box>
+              ) : (
+                <Box sx={{ mb: 2 }}>
+                  <Typography variant="h6" gutterBottom>
+                    Message
+                  </Typography>
+                  <Paper sx={{ p: 2, bgcolor: 'grey.50' }}>
+                    {emailData.bodyHtml ? (
+                      <div dangerouslySetInnerHTML={{ __html: emailData.bodyHtml }} />
+                    ) : (
+                      <ReactMarkdown>{emailData.bodyText || 'No content'}</ReactMarkdown>
+                    )}
+                  </Paper>
+                </Box>
+              )}
 
               {emailData.attachments?.length > 0 && (
                 <Box>
@@ -243,6 +305,9 @@ export const EmailDetail: React.FC = () => {
                       label={attachment.filename}
                       variant="outlined"
                       sx={{ mr: 1, mb: 1 }}
+                      component="a"
+                      href={attachment.blobId ? emailAPI.getAttachmentUrl(id!, attachment.id) : undefined}
+                      clickable={!!attachment.blobId}
                     />
                   ))}
                 </Box>
@@ -18,8 +18,8 @@ import {
 } from '@mui/material';
 import { Search as SearchIcon, FilterList as FilterIcon } from '@mui/icons-material';
 import { useQuery } from 'react-query';
-import { emailAPI } from '../services/api';
-import { EmailCard } from '../components/EmailCard';
+import { threadAPI } from '../services/api';
+import { ThreadCard } from '../components/ThreadCard';
 
 export const EmailList: React.FC = () => {
   const [page, setPage] = useState(1);
@@ -33,12 +33,15 @@ export const EmailList: React.FC = () => {
   });
 
   const { data, isLoading, error, refetch } = useQuery(
-    ['emails', page, search, filters],
-    () => emailAPI.getEmails({
+    ['threads', page, search, filters],
+    () => threadAPI.getThreads({
       page,
       limit: 20,
       search: search || undefined,
-      ...filters,
+      accountId: filters.accountId || undefined,
+      folder: filters.folder || undefined,
+      category: filters.aiCategory || undefined,
+      isRead: filters.isRead || undefined,
     }),
     {
       keepPreviousData: true,
@@ -70,14 +73,14 @@ export const EmailList: React.FC = () => {
     setPage(1);
   };
 
-  const emails = data?.data?.emails || [];
-  const pagination = data?.data?.pagination || {};
+  const threads = data?.data?.data?.threads || [];
+  const pagination = data?.data?.data?.pagination || {};
 
   if (error) {
     return (
       <Box sx={{ p: 3 }}>
         <Alert severity="error">
-          Failed to load emails. Please try again.
+          Failed to load conversations. Please try again.
         </Alert>
       </Box>
     );
@@ -173,14 +176,14 @@ export const EmailList: React.FC = () => {
         <>
           <Box sx={{ mb: 2 }}>
             <Typography variant="body2" color="text.secondary">
-              Showing {emails.length} of {pagination.totalCount} emails
+              Showing {threads.length} of {pagination.totalCount} conversations
             </Typography>
           </Box>
 
           <Grid container spacing={2}>
-            {emails.map((email: any) => (
-              <Grid item xs={12} key={email.id}>
-                <EmailCard email={email} />
+            {threads.map((thread: any) => (
+              <Grid item xs={12} key={thread.id}>
+                <ThreadCard thread={thread} />
               </Grid>
             ))}
           </Grid>
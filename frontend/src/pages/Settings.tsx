@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -14,6 +14,9 @@ import {
   CircularProgress,
   Grid,
   Divider,
+  LinearProgress,
+  Checkbox,
+  Chip,
 } from '@mui/material';
 import {
   AccountCircle as AccountIcon,
@@ -23,6 +26,7 @@ import {
 } from '@mui/icons-material';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import { emailAPI, aiAPI } from '../services/api';
+import { useSocket } from '../contexts/SocketContext';
 import toast from 'react-hot-toast';
 
 interface TabPanelProps {
@@ -47,6 +51,15 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
+// Messages for the error types returned by the connection test
+const CONNECTION_ERRORS: Record<string, string> = {
+  dns: 'The IMAP host could not be found',
+  tls: 'The secure connection failed, check the port and SSL/TLS setting',
+  connection: 'The server refused the connection',
+  timeout: 'The server did not respond in time',
+  auth: 'The username or password was rejected',
+};
+
 export const Settings: React.FC = () => {
   const [activeTab, setActiveTab] = useState(0);
   const [settings, setSettings] = useState({
@@ -82,6 +95,40 @@ export const Settings: React.FC = () => {
     }
   );
 
+  // The OAuth callback redirects back here with the outcome
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const outcome = params.get('oauth');
+    if (!outcome) return;
+
+    if (outcome === 'success') {
+      queryClient.invalidateQueries('email-accounts');
+      toast.success('Email account connected');
+    } else {
+      toast.error(`Failed to connect email account: ${params.get('reason') || 'unknown error'}`);
+    }
+    window.history.replaceState(null, '', window.location.pathname);
+  }, [queryClient]);
+
+  // Only save accounts that can actually log in
+  const testAccountMutation = useMutation(
+    (accountData: any) => emailAPI.testAccount(accountData),
+    {
+      onSuccess: (response, accountData) => {
+        const result = response.data?.data;
+        if (result?.ok) {
+          addAccountMutation.mutate(accountData);
+          return;
+        }
+        const reason = CONNECTION_ERRORS[result?.error?.type] || result?.error?.message || 'Unknown error';
+        toast.error(`Connection test failed: ${reason}`);
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error?.message || 'Failed to test the connection');
+      },
+    }
+  );
+
   const handleSettingChange = (setting: string) => (event: any) => {
     setSettings(prev => ({
       ...prev,
@@ -99,10 +146,10 @@ export const Settings: React.FC = () => {
       secure: formData.get('secure') === 'on',
       username: formData.get('username'),
       password: formData.get('password'),
-      folders: ['INBOX', 'SENT'],
+      folders: ['INBOX'],
       isActive: true,
     };
-    addAccountMutation.mutate(accountData);
+    testAccountMutation.mutate(accountData);
   };
 
   return (
@@ -123,10 +170,10 @@ export const Settings: React.FC = () => {
 
         <TabPanel value={activeTab} index={0}>
           <EmailAccountsTab 
-            accounts={accounts?.data || []}
+            accounts={accounts?.data?.data || []}
             loading={accountsLoading}
             onAddAccount={handleAddAccount}
-            addAccountLoading={addAccountMutation.isLoading}
+            addAccountLoading={testAccountMutation.isLoading || addAccountMutation.isLoading}
           />
         </TabPanel>
 
@@ -190,14 +237,12 @@ const EmailAccountsTab: React.FC<EmailAccountsTabProps> = ({
                     <Typography variant="body2" color="text.secondary">
                       {account.username} • {account.host}
                     </Typography>
-                    <Typography variant="body2" color="text.secondary">
-                      Status: {account.is_active ? 'Active' : 'Inactive'}
-                    </Typography>
+                    <AccountStatusLine accountId={account.id} />
                   </Box>
-                  <Button variant="outlined" color="error">
-                    Remove
-                  </Button>
+                  <AccountActions account={account} />
                 </Box>
+                <AccountFolders accountId={account.id} />
+                <AccountBackfill accountId={account.id} />
               </CardContent>
             </Card>
           ))}
@@ -209,6 +254,17 @@ const EmailAccountsTab: React.FC<EmailAccountsTabProps> = ({
           <Typography variant="h6" gutterBottom>
             Add New Email Account
           </Typography>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <Button variant="outlined" href={emailAPI.getOAuthStartUrl('google')}>
+              Sign in with Google
+            </Button>
+            <Button variant="outlined" href={emailAPI.getOAuthStartUrl('microsoft')}>
+              Sign in with Microsoft
+            </Button>
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Or connect any IMAP server with a password:
+          </Typography>
           <form onSubmit={onAddAccount}>
             <Grid container spacing={2}>
               <Grid item xs={12} md={6}>
@@ -280,6 +336,347 @@ const EmailAccountsTab: React.FC<EmailAccountsTabProps> = ({
   );
 };
 
+const STATUS_COLORS: Record<string, 'success' | 'warning' | 'error' | 'default'> = {
+  connected: 'success',
+  reconnecting: 'warning',
+  auth_failed: 'error',
+  disabled: 'default',
+};
+
+interface AccountStatusLineProps {
+  accountId: number;
+}
+
+const AccountStatusLine: React.FC<AccountStatusLineProps> = ({ accountId }) => {
+  const { socket } = useSocket();
+  const [liveStatus, setLiveStatus] = useState<any>(null);
+
+  const { data } = useQuery(
+    ['account-status', accountId],
+    () => emailAPI.getAccountStatus(accountId)
+  );
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleStatus = (status: any) => {
+      if (status?.accountId === accountId) {
+        setLiveStatus(status);
+      }
+    };
+
+    socket.on('accountStatus', handleStatus);
+    return () => {
+      socket.off('accountStatus', handleStatus);
+    };
+  }, [socket, accountId]);
+
+  const status = liveStatus || data?.data?.data;
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+      <Chip
+        label={status.status.replace('_', ' ')}
+        color={STATUS_COLORS[status.status] || 'default'}
+        size="small"
+      />
+      <Typography variant="body2" color="text.secondary">
+        {status.lastSuccessfulSyncAt
+          ? `Last sync ${new Date(status.lastSuccessfulSyncAt).toLocaleString()}`
+          : 'Not synced yet'}
+        {status.status !== 'connected' && status.lastError ? ` • ${status.lastError}` : ''}
+      </Typography>
+    </Box>
+  );
+};
+
+interface AccountActionsProps {
+  account: any;
+}
+
+const AccountActions: React.FC<AccountActionsProps> = ({ account }) => {
+  const queryClient = useQueryClient();
+
+  const refreshAccount = () => {
+    queryClient.invalidateQueries('email-accounts');
+    queryClient.invalidateQueries(['account-status', account.id]);
+  };
+
+  const toggleMutation = useMutation(
+    () => account.is_active ? emailAPI.pauseAccount(account.id) : emailAPI.resumeAccount(account.id),
+    {
+      onSuccess: () => {
+        refreshAccount();
+        toast.success(account.is_active ? 'Account paused' : 'Account resumed');
+      },
+      onError: () => {
+        toast.error('Failed to update account');
+      },
+    }
+  );
+
+  const resyncMutation = useMutation(
+    () => emailAPI.resyncAccount(account.id),
+    {
+      onSuccess: () => {
+        toast.success('Resync started');
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error?.message || 'Failed to start resync');
+      },
+    }
+  );
+
+  const removeMutation = useMutation(
+    (purge: boolean) => emailAPI.deleteAccount(account.id, purge),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('email-accounts');
+        toast.success('Email account removed');
+      },
+      onError: () => {
+        toast.error('Failed to remove email account');
+      },
+    }
+  );
+
+  const handleRemove = () => {
+    if (!window.confirm(`Remove ${account.name}?`)) return;
+    const purge = window.confirm('Also delete all emails synced from this account? Cancel keeps them.');
+    removeMutation.mutate(purge);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      {account.auth_type === 'oauth2' && (
+        <Button
+          variant="outlined"
+          href={emailAPI.getOAuthStartUrl(account.oauth_provider, { accountId: String(account.id) })}
+        >
+          Re-authorize
+        </Button>
+      )}
+      <Button variant="outlined" onClick={() => toggleMutation.mutate()} disabled={toggleMutation.isLoading}>
+        {account.is_active ? 'Pause' : 'Resume'}
+      </Button>
+      <Button
+        variant="outlined"
+        onClick={() => resyncMutation.mutate()}
+        disabled={!account.is_active || resyncMutation.isLoading}
+      >
+        Resync
+      </Button>
+      <Button variant="outlined" color="error" onClick={handleRemove} disabled={removeMutation.isLoading}>
+        Remove
+      </Button>
+    </Box>
+  );
+};
+
+interface AccountFoldersProps {
+  accountId: number;
+}
+
+const AccountFolders: React.FC<AccountFoldersProps> = ({ accountId }) => {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string[] | null>(null);
+
+  const { data, isLoading } = useQuery(
+    ['account-folders', accountId],
+    () => emailAPI.getFolders(accountId)
+  );
+
+  const refreshFoldersMutation = useMutation(
+    () => emailAPI.getFolders(accountId, { refresh: true }),
+    {
+      onSuccess: (response) => {
+        queryClient.setQueryData(['account-folders', accountId], response);
+      },
+      onError: () => {
+        toast.error('Failed to refresh folders from the mail server');
+      },
+    }
+  );
+
+  const updateFoldersMutation = useMutation(
+    (folders: string[]) => emailAPI.updateFolders(accountId, folders),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['account-folders', accountId]);
+        queryClient.invalidateQueries('email-accounts');
+        setSelected(null);
+        toast.success('Synced folders updated');
+      },
+      onError: () => {
+        toast.error('Failed to update synced folders');
+      },
+    }
+  );
+
+  const folders: any[] = data?.data?.data || [];
+  const current = selected || folders.filter((folder) => folder.isSynced).map((folder) => folder.path);
+
+  const toggleFolder = (path: string) => {
+    setSelected(current.includes(path) ? current.filter((p) => p !== path) : [...current, path]);
+  };
+
+  if (isLoading) {
+    return <LinearProgress sx={{ mt: 2 }} />;
+  }
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        Synced Folders
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        {folders.filter((folder) => folder.isSelectable).map((folder) => (
+          <FormControlLabel
+            key={folder.path}
+            control={
+              <Checkbox
+                size="small"
+                checked={current.includes(folder.path)}
+                onChange={() => toggleFolder(folder.path)}
+              />
+            }
+            label={
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                {folder.path}
+                {folder.role !== 'other' && <Chip label={folder.role} size="small" />}
+              </Box>
+            }
+          />
+        ))}
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+        <Button
+          size="small"
+          variant="contained"
+          disabled={!selected || current.length === 0 || updateFoldersMutation.isLoading}
+          onClick={() => updateFoldersMutation.mutate(current)}
+        >
+          Save Folders
+        </Button>
+        <Button
+          size="small"
+          disabled={refreshFoldersMutation.isLoading}
+          onClick={() => refreshFoldersMutation.mutate()}
+        >
+          Refresh
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+interface AccountBackfillProps {
+  accountId: number;
+}
+
+const AccountBackfill: React.FC<AccountBackfillProps> = ({ accountId }) => {
+  const { socket } = useSocket();
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<any>(null);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const { data: jobs } = useQuery(
+    ['backfill-jobs', accountId],
+    () => emailAPI.getBackfillJobs(accountId)
+  );
+
+  const startBackfillMutation = useMutation(
+    () => emailAPI.startBackfill(accountId, {
+      dateFrom: dateFrom || undefined,
+      dateTo: dateTo || undefined,
+    }),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['backfill-jobs', accountId]);
+        toast.success('Backfill started');
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error?.message || 'Failed to start backfill');
+      },
+    }
+  );
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleProgress = (data: any) => {
+      if (data.accountId === accountId) {
+        setProgress(data);
+      }
+    };
+
+    socket.on('backfillProgress', handleProgress);
+    return () => {
+      socket.off('backfillProgress', handleProgress);
+    };
+  }, [socket, accountId]);
+
+  const latestJob = jobs?.data?.data?.[0];
+  const current = progress || (latestJob && {
+    status: latestJob.status,
+    folder: latestJob.currentFolder,
+    processed: latestJob.processedMessages,
+    total: latestJob.totalMessages,
+    error: latestJob.error,
+  });
+  const isActive = current && (current.status === 'pending' || current.status === 'running');
+  const percent = current?.total ? Math.round((current.processed / current.total) * 100) : 0;
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={dateFrom}
+          onChange={(e) => setDateFrom(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={dateTo}
+          onChange={(e) => setDateTo(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <Button
+          variant="outlined"
+          disabled={isActive || startBackfillMutation.isLoading}
+          onClick={() => startBackfillMutation.mutate()}
+        >
+          Backfill History
+        </Button>
+      </Box>
+
+      {current && (
+        <Box sx={{ mt: 2 }}>
+          <LinearProgress
+            variant={current.total ? 'determinate' : 'indeterminate'}
+            value={percent}
+            color={current.status === 'failed' ? 'error' : 'primary'}
+          />
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+            Backfill {current.status}: {current.processed} / {current.total} emails
+            {current.folder ? ` • ${current.folder}` : ''}
+            {current.error ? ` • ${current.error}` : ''}
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
 interface NotificationsTabProps {
   settings: any;
   onSettingChange: (setting: string) => (event: any) => void;
@@ -46,11 +46,36 @@ export const emailAPI = {
   getEmail: (id: string) => api.get(`/emails/${id}`),
   updateEmail: (id: string, data: any) => api.patch(`/emails/${id}`, data),
   deleteEmail: (id: string) => api.delete(`/emails/${id}`),
+  moveEmail: (id: string, folder: string) => api.post(`/emails/${id}/move`, { folder }),
+  archiveEmail: (id: string) => api.post(`/emails/${id}/archive`),
+  getRawEmailUrl: (id: string) => `${API_BASE_URL}/api/emails/${id}/raw`,
+  getAttachmentUrl: (id: string, attachmentId: string) =>
+    `${API_BASE_URL}/api/emails/${id}/attachments/${attachmentId}?download=true`,
   getAccounts: () => api.get('/emails/accounts/list'),
   addAccount: (data: any) => api.post('/emails/accounts', data),
+  testAccount: (data: any) => api.post('/emails/accounts/test', data),
+  updateAccount: (id: number, data: any) => api.patch(`/emails/accounts/${id}`, data),
+  deleteAccount: (id: number, purge = false) => api.delete(`/emails/accounts/${id}`, { params: { purge } }),
+  pauseAccount: (id: number) => api.post(`/emails/accounts/${id}/pause`),
+  resumeAccount: (id: number) => api.post(`/emails/accounts/${id}/resume`),
+  resyncAccount: (id: number) => api.post(`/emails/accounts/${id}/resync`),
+  getAccountStatus: (id: number) => api.get(`/emails/accounts/${id}/status`),
+  getFolders: (id: number, params?: any) => api.get(`/emails/accounts/${id}/folders`, { params }),
+  updateFolders: (id: number, folders: string[]) => api.put(`/emails/accounts/${id}/folders`, { folders }),
+  startBackfill: (id: number, data: any) => api.post(`/emails/accounts/${id}/backfill`, data),
+  getBackfillJobs: (id: number) => api.get(`/emails/accounts/${id}/backfill`),
+  // The OAuth flow is a full-page redirect, so this only builds the URL
+  getOAuthStartUrl: (provider: string, params: Record<string, string> = {}) =>
+    `${API_BASE_URL}/api/emails/accounts/oauth/${provider}/start?${new URLSearchParams(params).toString()}`,
   getStats: () => api.get('/emails/stats/overview'),
 };
 
+// Thread API
+export const threadAPI = {
+  getThreads: (params?: any) => api.get('/threads', { params }),
+  getThread: (id: number | string) => api.get(`/threads/${id}`),
+};
+
 // Search API
 export const searchAPI = {
   search: (params: any) => api.get('/search', { params }),
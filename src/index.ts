@@ -11,11 +11,25 @@ import { SlackService } from './services/SlackService';
 import { WebhookService } from './services/WebhookService';
 import { DatabaseService } from './services/DatabaseService';
 import { VectorDBService } from './services/VectorDBService';
+import { OAuthService } from './services/OAuthService';
+import { BlobStore, createBlobStore } from './services/BlobStore';
+import { ThreadingService } from './services/ThreadingService';
+import { StoreIntegrityService } from './services/StoreIntegrityService';
+import { OutboxService } from './services/OutboxService';
+import { ReindexService } from './services/ReindexService';
+import { ImportService } from './services/ImportService';
+import { ExportService } from './services/ExportService';
+import { SmtpService } from './services/SmtpService';
 import { logger } from './utils/logger';
+import { validateCredentialKeys } from './utils/credentials';
 import { errorHandler } from './middleware/errorHandler';
 import { emailRoutes, initializeEmailRoutes } from './routes/emailRoutes';
 import { searchRoutes, initializeSearchRoutes } from './routes/searchRoutes';
 import { aiRoutes, initializeAIRoutes } from './routes/aiRoutes';
+import { threadRoutes, initializeThreadRoutes } from './routes/threadRoutes';
+import { adminRoutes, initializeAdminRoutes } from './routes/adminRoutes';
+import { importRoutes, initializeImportRoutes } from './routes/importRoutes';
+import { exportRoutes, initializeExportRoutes } from './routes/exportRoutes';
 
 // Load environment variables
 dotenv.config();
@@ -31,6 +45,15 @@ class Application {
   private webhookService!: WebhookService;
   private databaseService!: DatabaseService;
   private vectorDBService!: VectorDBService;
+  private oauthService!: OAuthService;
+  private blobStore!: BlobStore;
+  private threadingService!: ThreadingService;
+  private storeIntegrityService!: StoreIntegrityService;
+  private outboxService!: OutboxService;
+  private reindexService!: ReindexService;
+  private importService!: ImportService;
+  private exportService!: ExportService;
+  private smtpService!: SmtpService;
 
   constructor() {
     this.app = express();
@@ -51,6 +74,9 @@ class Application {
     try {
       logger.info('Initializing services...');
       
+      // Account credentials can't be stored or read without the key
+      validateCredentialKeys();
+      
       // Initialize database
       this.databaseService = new DatabaseService();
       await this.databaseService.initialize();
@@ -72,6 +98,24 @@ class Application {
       // Initialize Webhook Service
       this.webhookService = new WebhookService();
       
+      // Initialize OAuth Service
+      this.oauthService = new OAuthService();
+      
+      // Initialize Blob Store
+      this.blobStore = createBlobStore();
+      
+      // Initialize Outbox Service
+      this.outboxService = new OutboxService(this.databaseService, this.elasticsearchService, this.vectorDBService);
+      
+      // Initialize Threading Service
+      this.threadingService = new ThreadingService(this.databaseService, this.outboxService);
+      
+      // Initialize Reindex Service
+      this.reindexService = new ReindexService(this.databaseService, this.elasticsearchService);
+      
+      // Initialize Store Integrity Service
+      this.storeIntegrityService = new StoreIntegrityService(this.databaseService, this.elasticsearchService, this.vectorDBService, this.outboxService);
+      
       // Initialize Email Sync Service
       this.emailSyncService = new EmailSyncService(
         this.elasticsearchService,
@@ -79,13 +123,30 @@ class Application {
         this.slackService,
         this.webhookService,
         this.vectorDBService,
+        this.oauthService,
+        this.blobStore,
+        this.threadingService,
+        this.outboxService,
         this.io
       );
       
+      // Initialize Import Service
+      this.importService = new ImportService(this.databaseService, this.emailSyncService);
+      
+      // Initialize Export Service
+      this.exportService = new ExportService(this.databaseService, this.elasticsearchService, this.blobStore);
+      
+      // Initialize SMTP Service
+      this.smtpService = new SmtpService(this.databaseService, this.emailSyncService, this.blobStore);
+      
       // Initialize route dependencies
-      initializeEmailRoutes(this.databaseService, this.elasticsearchService, this.aiService, this.vectorDBService);
+      initializeEmailRoutes(this.databaseService, this.elasticsearchService, this.aiService, this.vectorDBService, this.emailSyncService, this.oauthService, this.blobStore, this.outboxService, this.smtpService);
       initializeSearchRoutes(this.elasticsearchService, this.vectorDBService);
-      initializeAIRoutes(this.aiService, this.vectorDBService, this.databaseService);
+      initializeAIRoutes(this.aiService, this.vectorDBService, this.databaseService, this.outboxService);
+      initializeThreadRoutes(this.threadingService);
+      initializeAdminRoutes(this.storeIntegrityService, this.outboxService, this.reindexService, this.elasticsearchService);
+      initializeImportRoutes(this.importService);
+      initializeExportRoutes(this.exportService);
       
       logger.info('All services initialized successfully');
     } catch (error) {
@@ -131,6 +192,10 @@ class Application {
     this.app.use('/api/emails', emailRoutes);
     this.app.use('/api/search', searchRoutes);
     this.app.use('/api/ai', aiRoutes);
+    this.app.use('/api/threads', threadRoutes);
+    this.app.use('/api/admin', adminRoutes);
+    this.app.use('/api/import', importRoutes);
+    this.app.use('/api/export', exportRoutes);
 
     // Serve static files in production
     if (process.env.NODE_ENV === 'production') {
@@ -162,6 +227,16 @@ class Application {
       // Initialize services first
       await this.initializeServices();
       
+      // Apply search index changes left from the last run, then keep polling
+      this.outboxService.start();
+      
+      // Compare the search stores against Postgres on RECONCILE_CRON
+      this.storeIntegrityService.startSchedule();
+      
+      // Resume background exports and imports left from the last run
+      await this.exportService.start();
+      await this.importService.start();
+      
       // Start email synchronization
       await this.emailSyncService.startSync();
       
@@ -192,6 +267,10 @@ class Application {
       logger.info('Shutting down application...');
       
       await this.emailSyncService.stopSync();
+      this.storeIntegrityService?.stopSchedule();
+      await this.exportService?.stop();
+      await this.importService?.stop();
+      await this.outboxService?.stop();
       await this.databaseService?.close();
       await this.elasticsearchService?.close();
       await this.vectorDBService?.close();
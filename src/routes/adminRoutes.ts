@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { StoreIntegrityService } from '../services/StoreIntegrityService';
+import { OutboxService } from '../services/OutboxService';
+import { ReindexService } from '../services/ReindexService';
+import { ElasticsearchService } from '../services/ElasticsearchService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Initialize services (these would be injected in a real app)
+let storeIntegrityService: StoreIntegrityService;
+let outboxService: OutboxService;
+let reindexService: ReindexService;
+let elasticsearchService: ElasticsearchService;
+
+export const initializeAdminRoutes = (
+  integrity: StoreIntegrityService,
+  outbox: OutboxService,
+  reindex: ReindexService,
+  es: ElasticsearchService
+) => {
+  storeIntegrityService = integrity;
+  outboxService = outbox;
+  reindexService = reindex;
+  elasticsearchService = es;
+};
+
+// Drift found by the last finished reconciliation; comparing the stores is too slow for a request
+router.get('/integrity', asyncHandler(async (req, res) => {
+  if (storeIntegrityService.isReconciling()) {
+    throw createError('A reconciliation is running; poll GET /api/admin/reconcile for its report', 409);
+  }
+
+  const { report } = storeIntegrityService.getProgress();
+  if (!report) {
+    throw createError('No reconciliation has finished yet; start one with POST /api/admin/reconcile', 404);
+  }
+
+  const { repaired, ...integrity } = report;
+  res.json({
+    success: true,
+    data: integrity
+  });
+}));
+
+// Report drift between Postgres and the search stores in the background; with `repair`, reindex from Postgres
+router.post('/reconcile', asyncHandler(async (req, res) => {
+  const { repair = false, sampleSize } = req.body || {};
+
+  if (storeIntegrityService.isReconciling()) {
+    throw createError('A reconciliation is already running', 409);
+  }
+
+  storeIntegrityService.reconcile({
+    repair: repair === true,
+    sampleSize: Math.min(Number(sampleSize) || 50, 1000)
+  }).catch((error) => {
+    logger.error('Background reconciliation failed:', error);
+  });
+
+  res.status(202).json({
+    success: true,
+    data: storeIntegrityService.getProgress()
+  });
+}));
+
+// Progress of the running reconciliation and the report of the last finished one
+router.get('/reconcile', asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: storeIntegrityService.getProgress()
+  });
+}));
+
+// Search index changes that failed, are retrying or have waited too long
+router.get('/outbox', asyncHandler(async (req, res) => {
+  const limit = Math.min(Number(req.query.limit) || 100, 1000);
+
+  const report = await outboxService.getReport(limit);
+
+  res.json({
+    success: true,
+    data: report
+  });
+}));
+
+// Rebuild the Elasticsearch index from Postgres in the background; poll GET for progress
+router.post('/reindex', asyncHandler(async (req, res) => {
+  const { keepOldIndices = false } = req.body || {};
+
+  if (reindexService.isRunning()) {
+    throw createError('A reindex is already running', 409);
+  }
+
+  reindexService.reindex({ keepOldIndices: keepOldIndices === true }).catch((error) => {
+    logger.error('Background reindex failed:', error);
+  });
+
+  res.status(202).json({
+    success: true,
+    data: reindexService.getProgress()
+  });
+}));
+
+// Progress of the last reindex and the indices behind the alias
+router.get('/reindex', asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      progress: reindexService.getProgress(),
+      index: await elasticsearchService.getIndexInfo()
+    }
+  });
+}));
+
+export { router as adminRoutes };
@@ -3,7 +3,9 @@ import { asyncHandler, createError } from '../middleware/errorHandler';
 import { AIService } from '../services/AIService';
 import { VectorDBService } from '../services/VectorDBService';
 import { DatabaseService } from '../services/DatabaseService';
+import { OutboxService } from '../services/OutboxService';
 import { logger } from '../utils/logger';
+import { isEmailId } from '../utils/emailIdentity';
 
 const router = Router();
 
@@ -11,15 +13,18 @@ const router = Router();
 let aiService: AIService;
 let vectorDBService: VectorDBService;
 let databaseService: DatabaseService;
+let outboxService: OutboxService;
 
 export const initializeAIRoutes = (
   ai: AIService,
   vector: VectorDBService,
-  db: DatabaseService
+  db: DatabaseService,
+  outbox: OutboxService
 ) => {
   aiService = ai;
   vectorDBService = vector;
   databaseService = db;
+  outboxService = outbox;
 };
 
 // Categorize email using AI
@@ -141,8 +146,8 @@ router.post('/bulk-categorize', asyncHandler(async (req, res) => {
         const emailResult = await databaseService.query(`
           SELECT subject, body_text, from_email
           FROM emails
-          WHERE id = $1
-        `, [emailId]);
+          WHERE public_id = $1
+        `, [isEmailId(emailId) ? emailId : null]);
 
         if (emailResult.rows.length === 0) {
           results.push({
@@ -161,11 +166,14 @@ router.post('/bulk-categorize', asyncHandler(async (req, res) => {
         );
 
         // Update email in database
-        await databaseService.query(`
-          UPDATE emails
-          SET ai_category = $1, ai_confidence = $2, updated_at = CURRENT_TIMESTAMP
-          WHERE id = $3
-        `, [categorization.category, categorization.confidence, emailId]);
+        await databaseService.transaction(async (client) => {
+          await client.query(`
+            UPDATE emails
+            SET ai_category = $1, ai_confidence = $2, updated_at = CURRENT_TIMESTAMP
+            WHERE public_id = $3
+          `, [categorization.category, categorization.confidence, emailId]);
+          await outboxService.enqueue(client, emailId, 'index');
+        });
 
         results.push({
           emailId,
@@ -182,6 +190,8 @@ router.post('/bulk-categorize', asyncHandler(async (req, res) => {
       }
     }
 
+    outboxService.dispatchSoon();
+
     res.json({
       success: true,
       data: {
@@ -4,7 +4,16 @@ import { DatabaseService } from '../services/DatabaseService';
 import { ElasticsearchService } from '../services/ElasticsearchService';
 import { AIService } from '../services/AIService';
 import { VectorDBService } from '../services/VectorDBService';
+import { EmailSyncService, IMAPAccount, ImapOperationType, SmtpSettings } from '../services/EmailSyncService';
+import { OAuthService } from '../services/OAuthService';
+import { BlobStore } from '../services/BlobStore';
+import { OutboxService } from '../services/OutboxService';
+import { MAIL_ACCOUNT_TYPES } from '../services/MailSource';
+import { ComposeRequest, ReplyMode, SmtpService } from '../services/SmtpService';
 import { logger } from '../utils/logger';
+import { buildEmailFilters } from '../utils/emailFilters';
+import { rewriteCidLinks } from '../utils/cidLinks';
+import { isEmailId } from '../utils/emailIdentity';
 
 const router = Router();
 
@@ -13,85 +22,140 @@ let databaseService: DatabaseService;
 let elasticsearchService: ElasticsearchService;
 let aiService: AIService;
 let vectorDBService: VectorDBService;
+let emailSyncService: EmailSyncService;
+let oauthService: OAuthService;
+let blobStore: BlobStore;
+let outboxService: OutboxService;
+let smtpService: SmtpService;
 
 // This would be handled by dependency injection in a real app
 export const initializeEmailRoutes = (
   db: DatabaseService,
   es: ElasticsearchService,
   ai: AIService,
-  vector: VectorDBService
+  vector: VectorDBService,
+  sync: EmailSyncService,
+  oauth: OAuthService,
+  blobs: BlobStore,
+  outbox: OutboxService,
+  smtp: SmtpService
 ) => {
   databaseService = db;
   elasticsearchService = es;
   aiService = ai;
   vectorDBService = vector;
+  emailSyncService = sync;
+  oauthService = oauth;
+  blobStore = blobs;
+  outboxService = outbox;
+  smtpService = smtp;
 };
 
-// Get all emails with pagination and filtering
-router.get('/', asyncHandler(async (req, res) => {
-  const {
-    page = 1,
-    limit = 20,
-    accountId,
-    folder,
-    aiCategory,
-    search,
-    dateFrom,
-    dateTo,
-    isRead,
-    isImportant
-  } = req.query;
+// Account columns that are safe to return; credentials never leave the server
+const ACCOUNT_FIELDS = 'id, name, host, port, secure, username, folders, is_active, auth_type, oauth_provider, account_type, leave_on_server, smtp_host, smtp_port, smtp_secure, smtp_username, smtp_from, created_at, updated_at';
 
-  const offset = (Number(page) - 1) * Number(limit);
-
-  let whereConditions = [];
-  let queryParams = [];
-  let paramCount = 0;
+const getAccountSummary = async (accountId: number): Promise<any> => {
+  const result = await databaseService.query(`SELECT ${ACCOUNT_FIELDS} FROM email_accounts WHERE id = $1`, [accountId]);
+  return result.rows[0] || null;
+};
 
-  if (accountId) {
-    whereConditions.push(`account_id = $${++paramCount}`);
-    queryParams.push(accountId);
+// Emails are addressed by their public id, the same id Elasticsearch and Chroma use
+const parseEmailId = (value: string): string => {
+  if (!isEmailId(value)) {
+    throw createError('Email not found', 404);
   }
+  return value;
+};
 
-  if (folder) {
-    whereConditions.push(`folder = $${++paramCount}`);
-    queryParams.push(folder);
-  }
+// The serial primary key stays internal; API consumers only see the public id
+const toApiEmail = (row: any): any => {
+  const { id, public_id, ...email } = row;
+  return { id: public_id, ...email };
+};
 
-  if (aiCategory) {
-    whereConditions.push(`ai_category = $${++paramCount}`);
-    queryParams.push(aiCategory);
+// Queue write-back of a local action to the mailbox the email came from
+const queueServerOperation = async (
+  email: any,
+  type: ImapOperationType,
+  payload: Record<string, any> = {}
+): Promise<void> => {
+  if (!email.uid || !email.uid_validity) {
+    logger.debug(`Email ${email.id} has no server location, skipping ${type} write-back`);
+    return;
   }
 
-  if (isRead !== undefined) {
-    whereConditions.push(`is_read = $${++paramCount}`);
-    queryParams.push(isRead === 'true');
+  try {
+    await emailSyncService.queueImapOperation({
+      accountId: email.account_id,
+      emailId: email.id,
+      folder: email.folder,
+      uid: Number(email.uid),
+      uidValidity: Number(email.uid_validity),
+      type,
+      payload
+    });
+  } catch (error) {
+    logger.error(`Failed to queue ${type} write-back for email ${email.id}:`, error);
   }
+};
 
-  if (isImportant !== undefined) {
-    whereConditions.push(`is_important = $${++paramCount}`);
-    queryParams.push(isImportant === 'true');
+// Queue write-back to every folder copy of an email, or its primary location if none are recorded
+const queueForEveryLocation = async (
+  email: any,
+  locations: any[],
+  type: ImapOperationType,
+  payload: Record<string, any> = {}
+): Promise<void> => {
+  if (locations.length === 0) {
+    await queueServerOperation(email, type, payload);
   }
-
-  if (dateFrom) {
-    whereConditions.push(`date >= $${++paramCount}`);
-    queryParams.push(dateFrom);
+  for (const location of locations) {
+    await queueServerOperation({ ...email, ...location }, type, payload);
   }
+};
 
-  if (dateTo) {
-    whereConditions.push(`date <= $${++paramCount}`);
-    queryParams.push(dateTo);
+// Move an email to another folder locally and on the server
+const moveEmail = async (id: string, getDestination: (email: any) => string) => {
+  const existing = await databaseService.query('SELECT * FROM emails WHERE public_id = $1', [parseEmailId(id)]);
+  if (existing.rows.length === 0) {
+    throw createError('Email not found', 404);
   }
 
-  if (search) {
-    whereConditions.push(`(subject ILIKE $${++paramCount} OR body_text ILIKE $${++paramCount} OR from_name ILIKE $${++paramCount})`);
-    const searchTerm = `%${search}%`;
-    queryParams.push(searchTerm, searchTerm, searchTerm);
+  const email = existing.rows[0];
+  const destination = getDestination(email);
+  if (email.folder === destination) {
+    return toApiEmail(email);
   }
 
-  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+  // The new UID is unknown until the destination folder is synced
+  const result = await databaseService.transaction(async (client) => {
+    const updated = await client.query(`
+      UPDATE emails
+      SET folder = $1, folder_role = $2, uid = NULL, uid_validity = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3
+      RETURNING *
+    `, [destination, emailSyncService.getFolderRole(email.account_id, destination), email.id]);
+    await client.query('DELETE FROM email_locations WHERE email_id = $1 AND folder = $2', [email.id, email.folder]);
+    await outboxService.enqueue(client, email.public_id, 'index');
+    return updated;
+  });
+  outboxService.dispatchSoon();
+
+  await queueServerOperation(email, 'move', { destination });
+
+  return toApiEmail(result.rows[0]);
+};
 
-  const countQuery = `SELECT COUNT(*) FROM emails ${whereClause}`;
+// Get all emails with pagination and filtering
+router.get('/', asyncHandler(async (req, res) => {
+  const { page = 1, limit = 20 } = req.query;
+
+  const offset = (Number(page) - 1) * Number(limit);
+
+  const { whereClause, params: queryParams } = buildEmailFilters(req.query);
+  let paramCount = queryParams.length;
+
+  const countQuery = `SELECT COUNT(*) FROM emails e ${whereClause}`;
   const countResult = await databaseService.query(countQuery, queryParams);
   const totalCount = parseInt(countResult.rows[0].count);
 
@@ -110,7 +174,7 @@ router.get('/', asyncHandler(async (req, res) => {
   res.json({
     success: true,
     data: {
-      emails: emailsResult.rows,
+      emails: emailsResult.rows.map(toApiEmail),
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -123,28 +187,98 @@ router.get('/', asyncHandler(async (req, res) => {
 
 // Get email by ID
 router.get('/:id', asyncHandler(async (req, res) => {
-  const { id } = req.params;
+  const id = parseEmailId(req.params.id);
 
   const result = await databaseService.query(`
     SELECT e.*, ea.name as account_name
     FROM emails e
     LEFT JOIN email_accounts ea ON e.account_id = ea.id
-    WHERE e.id = $1
+    WHERE e.public_id = $1
   `, [id]);
 
   if (result.rows.length === 0) {
     throw createError('Email not found', 404);
   }
 
+  const email = result.rows[0];
+  const locations = await databaseService.query(`
+    SELECT l.account_id, ea.name AS account_name, l.folder, l.folder_role, l.uid, l.uid_validity, l.flags, l.last_seen_at
+    FROM email_locations l
+    LEFT JOIN email_accounts ea ON ea.id = l.account_id
+    WHERE l.email_id = $1
+    ORDER BY l.first_seen_at
+  `, [email.id]);
+  email.locations = locations.rows;
+
+  if (email.body_html) {
+    email.body_html = rewriteCidLinks(email.body_html, id, email.attachments || [], `${req.protocol}://${req.get('host')}`);
+  }
+
   res.json({
     success: true,
-    data: result.rows[0]
+    data: toApiEmail(email)
   });
 }));
 
+// Download an attachment; inline images are served inline so cid: references render
+router.get('/:id/attachments/:attachmentId', asyncHandler(async (req, res) => {
+  const id = parseEmailId(req.params.id);
+  const { attachmentId } = req.params;
+
+  const result = await databaseService.query('SELECT attachments FROM emails WHERE public_id = $1', [id]);
+  if (result.rows.length === 0) {
+    throw createError('Email not found', 404);
+  }
+
+  const attachment = (result.rows[0].attachments || []).find((att: any) => att.id === attachmentId);
+  const stream = attachment?.blobId ? await blobStore.createReadStream(attachment.blobId) : null;
+  if (!stream) {
+    throw createError('Attachment not found', 404);
+  }
+
+  const disposition = attachment.inline && req.query.download !== 'true' ? 'inline' : 'attachment';
+  res.setHeader('Content-Type', attachment.contentType || 'application/octet-stream');
+  res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  // The frontend runs on another origin and embeds inline images from here
+  res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+  if (attachment.checksum) {
+    res.setHeader('ETag', `"${attachment.checksum}"`);
+  }
+  stream.on('error', (error) => {
+    logger.error(`Failed to stream attachment ${attachmentId} of email ${id}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+}));
+
+// Download the original RFC 822 source as an .eml file
+router.get('/:id/raw', asyncHandler(async (req, res) => {
+  const id = parseEmailId(req.params.id);
+
+  const result = await databaseService.query('SELECT raw_blob_id FROM emails WHERE public_id = $1', [id]);
+  if (result.rows.length === 0) {
+    throw createError('Email not found', 404);
+  }
+
+  const rawBlobId = result.rows[0].raw_blob_id;
+  const stream = rawBlobId ? await blobStore.createReadStream(rawBlobId) : null;
+  if (!stream) {
+    throw createError('Raw message is not stored for this email', 404);
+  }
+
+  res.setHeader('Content-Type', 'message/rfc822');
+  res.setHeader('Content-Disposition', `attachment; filename="email-${id}.eml"`);
+  stream.on('error', (error) => {
+    logger.error(`Failed to stream raw message for email ${id}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+}));
+
 // Update email (mark as read, important, etc.)
 router.patch('/:id', asyncHandler(async (req, res) => {
-  const { id } = req.params;
+  const id = parseEmailId(req.params.id);
   const { isRead, isImportant, aiCategory } = req.body;
 
   const updates = [];
@@ -176,71 +310,173 @@ router.patch('/:id', asyncHandler(async (req, res) => {
   const query = `
     UPDATE emails 
     SET ${updates.join(', ')}
-    WHERE id = $${++paramCount}
+    WHERE public_id = $${++paramCount}
     RETURNING *
   `;
 
-  const result = await databaseService.query(query, params);
+  const result = await databaseService.transaction(async (client) => {
+    const updated = await client.query(query, params);
+    if (updated.rows.length > 0) {
+      await outboxService.enqueue(client, id, 'index');
+    }
+    return updated;
+  });
 
   if (result.rows.length === 0) {
     throw createError('Email not found', 404);
   }
+  outboxService.dispatchSoon();
 
-  // Update in Elasticsearch
-  try {
-    await elasticsearchService.updateEmail(id, {
-      isRead,
-      isImportant,
-      aiCategory
-    });
-  } catch (error) {
-    logger.error('Failed to update email in Elasticsearch:', error);
+  const flagChanges: { add: string[]; remove: string[] } = { add: [], remove: [] };
+  if (isRead !== undefined) {
+    (isRead ? flagChanges.add : flagChanges.remove).push('\\Seen');
+  }
+  if (isImportant !== undefined) {
+    (isImportant ? flagChanges.add : flagChanges.remove).push('\\Flagged');
+  }
+  if (flagChanges.add.length > 0 || flagChanges.remove.length > 0) {
+    // Flags are per message on the server, so every folder copy is updated
+    const locations = await databaseService.query(
+      'SELECT folder, uid, uid_validity FROM email_locations WHERE email_id = $1',
+      [result.rows[0].id]
+    );
+    await queueForEveryLocation(result.rows[0], locations.rows, 'flags', flagChanges);
   }
 
   res.json({
     success: true,
-    data: result.rows[0]
+    data: toApiEmail(result.rows[0])
   });
 }));
 
 // Delete email
 router.delete('/:id', asyncHandler(async (req, res) => {
-  const { id } = req.params;
-
-  const result = await databaseService.query(`
-    DELETE FROM emails 
-    WHERE id = $1
-    RETURNING *
-  `, [id]);
+  const id = parseEmailId(req.params.id);
+
+  // Every folder copy is deleted on the server, or the next sync of its folder would bring the email back
+  const { result, locations } = await databaseService.transaction(async (client) => {
+    const copies = await client.query(`
+      SELECT l.folder, l.uid, l.uid_validity
+      FROM email_locations l
+      JOIN emails e ON e.id = l.email_id
+      WHERE e.public_id = $1
+    `, [id]);
+    const deleted = await client.query(`
+      DELETE FROM emails 
+      WHERE public_id = $1
+      RETURNING *
+    `, [id]);
+    if (deleted.rows.length > 0) {
+      await outboxService.enqueue(client, id, 'delete');
+    }
+    return { result: deleted, locations: copies.rows };
+  });
 
   if (result.rows.length === 0) {
     throw createError('Email not found', 404);
   }
+  outboxService.dispatchSoon();
 
-  // Delete from Elasticsearch
-  try {
-    await elasticsearchService.deleteEmail(id);
-  } catch (error) {
-    logger.error('Failed to delete email from Elasticsearch:', error);
-  }
+  await queueForEveryLocation(result.rows[0], locations, 'delete');
 
-  // Delete from vector database
-  try {
-    await vectorDBService.deleteEmail(id);
-  } catch (error) {
-    logger.error('Failed to delete email from vector database:', error);
+  res.json({
+    success: true,
+    message: 'Email deleted successfully'
+  });
+}));
+
+// Move email to another folder
+router.post('/:id/move', asyncHandler(async (req, res) => {
+  const { folder } = req.body;
+
+  if (!folder) {
+    throw createError('Destination folder is required', 400);
   }
 
+  const email = await moveEmail(req.params.id, () => folder);
+
   res.json({
     success: true,
-    message: 'Email deleted successfully'
+    data: email
   });
 }));
 
+// Archive email
+router.post('/:id/archive', asyncHandler(async (req, res) => {
+  // Prefer the server's \Archive mailbox, which differs between providers
+  const email = await moveEmail(req.params.id, (existing) =>
+    emailSyncService.getFolderPathByRole(existing.account_id, 'archive') || process.env.ARCHIVE_FOLDER || 'Archive'
+  );
+
+  res.json({
+    success: true,
+    data: email
+  });
+}));
+
+const isAddressList = (value: any): boolean => {
+  return Array.isArray(value) && value.every(address => typeof address === 'string' && address.includes('@'));
+};
+
+// Validate the body of a reply or forward
+const parseComposeRequest = (body: any, mode: ReplyMode): ComposeRequest => {
+  const { text, html, to, cc, bcc, quote } = body;
+
+  if (text === undefined && html === undefined) {
+    throw createError('text or html is required', 400);
+  }
+  if ((text !== undefined && typeof text !== 'string') || (html !== undefined && typeof html !== 'string')) {
+    throw createError('text and html must be strings', 400);
+  }
+  for (const [field, value] of Object.entries({ to, cc, bcc })) {
+    if (value !== undefined && !isAddressList(value)) {
+      throw createError(`${field} must be an array of email addresses`, 400);
+    }
+  }
+  if (mode === 'forward' && (!to || to.length === 0)) {
+    throw createError('Forwarding requires at least one recipient in to', 400);
+  }
+  if (quote !== undefined && typeof quote !== 'boolean') {
+    throw createError('quote must be a boolean', 400);
+  }
+
+  return { text, html, to, cc, bcc, quote };
+};
+
+// Send a reply or forward of an email from its own account
+const sendFromEmail = (mode: ReplyMode) => asyncHandler(async (req, res) => {
+  const request = parseComposeRequest(req.body, mode);
+
+  const message = await smtpService.compose(parseEmailId(req.params.id), mode, request);
+  if (!message) {
+    throw createError('Email not found', 404);
+  }
+
+  try {
+    const sent = await smtpService.send(message);
+    res.status(201).json({
+      success: true,
+      data: sent
+    });
+  } catch (error: any) {
+    logger.error(`Failed to send ${mode} to email ${req.params.id}:`, error);
+    throw createError(`Sending failed: ${error.message}`, 502);
+  }
+});
+
+// Reply to the sender
+router.post('/:id/reply', sendFromEmail('reply'));
+
+// Reply to the sender and everyone else on the email
+router.post('/:id/reply-all', sendFromEmail('reply-all'));
+
+// Forward with the original's attachments
+router.post('/:id/forward', sendFromEmail('forward'));
+
 // Get email accounts
 router.get('/accounts/list', asyncHandler(async (req, res) => {
   const result = await databaseService.query(`
-    SELECT id, name, host, username, folders, is_active, created_at
+    SELECT ${ACCOUNT_FIELDS}
     FROM email_accounts
     ORDER BY created_at DESC
   `);
@@ -251,23 +487,402 @@ router.get('/accounts/list', asyncHandler(async (req, res) => {
   });
 }));
 
-// Add email account
-router.post('/accounts', asyncHandler(async (req, res) => {
-  const { name, host, port, secure, username, password, folders, isActive = true } = req.body;
+// Validate outgoing server settings; null removes them
+const parseSmtpSettings = (smtp: any): SmtpSettings | null => {
+  if (smtp === null) {
+    return null;
+  }
+  if (typeof smtp !== 'object' || !smtp.host || typeof smtp.host !== 'string') {
+    throw createError('smtp requires a host', 400);
+  }
+
+  const { host, port = 587, secure, username, password, from } = smtp;
+  if (!Number.isInteger(port) || port <= 0) {
+    throw createError('smtp.port must be a positive integer', 400);
+  }
+  if (secure !== undefined && typeof secure !== 'boolean') {
+    throw createError('smtp.secure must be a boolean', 400);
+  }
+  if (from !== undefined && (typeof from !== 'string' || !from.includes('@'))) {
+    throw createError('smtp.from must be an email address', 400);
+  }
+
+  return {
+    host,
+    port,
+    // Port 465 is implicit TLS; others upgrade with STARTTLS
+    secure: secure ?? port === 465,
+    username: username || undefined,
+    password: password || undefined,
+    from: from || undefined
+  };
+};
+
+// Validate an account creation payload into the shape the sync service expects
+const parseAccountPayload = (body: any): Omit<IMAPAccount, 'id'> => {
+  const {
+    name, host, port, secure, username, password, folders, isActive = true,
+    authType = 'password', oauthProvider, refreshToken, accountType = 'imap', leaveOnServer = true,
+    smtp
+  } = body;
 
-  if (!name || !host || !username || !password) {
+  if (!name || !host || !username) {
     throw createError('Missing required fields', 400);
   }
 
-  const result = await databaseService.query(`
-    INSERT INTO email_accounts (name, host, port, secure, username, password, folders, is_active)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-    RETURNING id, name, host, username, folders, is_active, created_at
-  `, [name, host, port, secure, username, password, folders || ['INBOX'], isActive]);
+  if (!MAIL_ACCOUNT_TYPES.includes(accountType)) {
+    throw createError(`accountType must be one of: ${MAIL_ACCOUNT_TYPES.join(', ')}`, 400);
+  }
+  if (accountType === 'pop3' && authType !== 'password') {
+    throw createError('POP3 accounts use password authentication', 400);
+  }
+  if (typeof leaveOnServer !== 'boolean') {
+    throw createError('leaveOnServer must be a boolean', 400);
+  }
+
+  if (authType === 'oauth2') {
+    if (!oauthService.isProvider(oauthProvider) || !refreshToken) {
+      throw createError('OAuth2 accounts require a valid oauthProvider and refreshToken', 400);
+    }
+  } else if (authType === 'password') {
+    if (!password) {
+      throw createError('Missing required fields', 400);
+    }
+  } else {
+    throw createError('authType must be password or oauth2', 400);
+  }
+
+  return {
+    name,
+    host,
+    port,
+    secure,
+    username,
+    password: authType === 'password' ? password : null,
+    // POP3 only has the one mailbox
+    folders: accountType === 'pop3' ? ['INBOX'] : folders || ['INBOX'],
+    isActive,
+    authType,
+    oauthProvider: authType === 'oauth2' ? oauthProvider : null,
+    refreshToken: authType === 'oauth2' ? refreshToken : null,
+    accountType,
+    leaveOnServer,
+    smtp: smtp === undefined ? null : parseSmtpSettings(smtp)
+  };
+};
+
+// Add email account
+router.post('/accounts', asyncHandler(async (req, res) => {
+  const accountId = await emailSyncService.addAccount(parseAccountPayload(req.body));
 
   res.status(201).json({
     success: true,
-    data: result.rows[0]
+    data: await getAccountSummary(accountId)
+  });
+}));
+
+// Try account settings without saving them
+router.post('/accounts/test', asyncHandler(async (req, res) => {
+  const result = await emailSyncService.testConnection(parseAccountPayload(req.body));
+
+  res.json({
+    success: true,
+    data: result
+  });
+}));
+
+// Settings, deletion, pause, resume and resync only apply to accounts synced from a server
+const requireSyncedAccount = async (accountId: number): Promise<void> => {
+  const result = await databaseService.query('SELECT account_type FROM email_accounts WHERE id = $1', [accountId]);
+  if (result.rows.length === 0) {
+    throw createError('Account not found', 404);
+  }
+  if (!MAIL_ACCOUNT_TYPES.includes(result.rows[0].account_type)) {
+    throw createError('The Imported account is not synced from a server', 409);
+  }
+};
+
+// Update account settings; running connections are reopened with the new settings
+router.patch('/accounts/:id', asyncHandler(async (req, res) => {
+  const accountId = Number(req.params.id);
+  await requireSyncedAccount(accountId);
+  const { name, host, port, secure, username, password, folders, leaveOnServer, smtp } = req.body;
+
+  if (port !== undefined && (!Number.isInteger(port) || port <= 0)) {
+    throw createError('Port must be a positive integer', 400);
+  }
+  if (folders !== undefined && (!Array.isArray(folders) || folders.length === 0 || folders.some(folder => typeof folder !== 'string'))) {
+    throw createError('Folders must be a non-empty array of folder names', 400);
+  }
+  if (password !== undefined && (typeof password !== 'string' || !password)) {
+    throw createError('Password must be a non-empty string', 400);
+  }
+  if (leaveOnServer !== undefined && typeof leaveOnServer !== 'boolean') {
+    throw createError('leaveOnServer must be a boolean', 400);
+  }
+
+  const updated = await emailSyncService.updateAccount(accountId, {
+    name, host, port, secure, username, password, folders, leaveOnServer,
+    smtp: smtp === undefined ? undefined : parseSmtpSettings(smtp)
+  });
+  if (!updated) {
+    throw createError('Account not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: await getAccountSummary(accountId)
+  });
+}));
+
+// Delete an account; ?purge=true also deletes its emails from every store
+router.delete('/accounts/:id', asyncHandler(async (req, res) => {
+  const accountId = Number(req.params.id);
+  await requireSyncedAccount(accountId);
+
+  const purge = req.query.purge === 'true';
+  const removed = await emailSyncService.removeAccount(accountId, purge);
+
+  if (!removed) {
+    throw createError('Account not found', 404);
+  }
+
+  res.json({
+    success: true,
+    message: purge ? 'Account and its emails deleted' : 'Account deleted'
+  });
+}));
+
+// Stop syncing an account until it is resumed
+router.post('/accounts/:id/pause', asyncHandler(async (req, res) => {
+  const accountId = Number(req.params.id);
+  await requireSyncedAccount(accountId);
+
+  if (!await emailSyncService.pauseAccount(accountId)) {
+    throw createError('Account not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: await getAccountSummary(accountId)
+  });
+}));
+
+// Start syncing a paused account, or retry one disabled by an authentication failure
+router.post('/accounts/:id/resume', asyncHandler(async (req, res) => {
+  const accountId = Number(req.params.id);
+  await requireSyncedAccount(accountId);
+
+  if (!await emailSyncService.resumeAccount(accountId)) {
+    throw createError('Account not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: await getAccountSummary(accountId)
+  });
+}));
+
+// Re-sync every folder of an account from scratch
+router.post('/accounts/:id/resync', asyncHandler(async (req, res) => {
+  const accountId = Number(req.params.id);
+  await requireSyncedAccount(accountId);
+
+  try {
+    await emailSyncService.resyncAccount(accountId);
+  } catch (error: any) {
+    throw createError(error.message, 409);
+  }
+
+  res.status(202).json({
+    success: true,
+    message: 'Resync started'
+  });
+}));
+
+// Start the OAuth2 authorization-code flow; pass accountId to re-authorize an existing account
+router.get('/accounts/oauth/:provider/start', asyncHandler(async (req, res) => {
+  const { provider } = req.params;
+
+  if (!oauthService.isProvider(provider)) {
+    throw createError('Unsupported OAuth provider', 400);
+  }
+  if (!oauthService.isConfigured(provider)) {
+    throw createError(`OAuth provider ${provider} is not configured`, 503);
+  }
+
+  const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+  let loginHint = req.query.email as string | undefined;
+
+  if (accountId) {
+    const account = await databaseService.query('SELECT username FROM email_accounts WHERE id = $1', [accountId]);
+    if (account.rows.length === 0) {
+      throw createError('Account not found', 404);
+    }
+    loginHint = account.rows[0].username;
+  }
+
+  res.redirect(oauthService.getAuthorizationUrl(provider, {
+    accountId,
+    name: req.query.name as string | undefined,
+    loginHint
+  }));
+}));
+
+// Provider redirects back here with the authorization code
+router.get('/accounts/oauth/:provider/callback', asyncHandler(async (req, res) => {
+  const { provider } = req.params;
+  const { code, state, error } = req.query as Record<string, string | undefined>;
+  const settingsUrl = `${process.env.FRONTEND_URL || 'http://localhost:3001'}/settings`;
+
+  if (!oauthService.isProvider(provider)) {
+    throw createError('Unsupported OAuth provider', 400);
+  }
+
+  const pending = state ? oauthService.consumeState(state) : null;
+  if (!pending || pending.provider !== provider) {
+    throw createError('Invalid or expired OAuth state', 400);
+  }
+
+  if (error || !code) {
+    logger.warn(`OAuth authorization with ${provider} was not completed: ${error || 'missing code'}`);
+    return res.redirect(`${settingsUrl}?oauth=error&reason=${encodeURIComponent(error || 'missing_code')}`);
+  }
+
+  const tokens = await oauthService.exchangeCode(provider, code);
+
+  if (pending.accountId) {
+    await emailSyncService.reauthorizeAccount(pending.accountId, provider, tokens);
+    return res.redirect(`${settingsUrl}?oauth=success&accountId=${pending.accountId}`);
+  }
+
+  if (!tokens.email) {
+    throw createError('OAuth provider did not return an email address', 502);
+  }
+  if (!tokens.refreshToken) {
+    throw createError('OAuth provider did not return a refresh token', 502);
+  }
+
+  const config = oauthService.getProviderConfig(provider);
+  const accountId = await emailSyncService.addAccount({
+    name: pending.name || tokens.email,
+    host: config.imapHost,
+    port: config.imapPort,
+    secure: true,
+    username: tokens.email,
+    password: null,
+    folders: ['INBOX'],
+    isActive: true,
+    authType: 'oauth2',
+    oauthProvider: provider,
+    refreshToken: tokens.refreshToken,
+    accessToken: tokens.accessToken,
+    accessTokenExpiresAt: tokens.expiresAt
+  });
+
+  res.redirect(`${settingsUrl}?oauth=success&accountId=${accountId}`);
+}));
+
+// Get connection health for an account
+router.get('/accounts/:id/status', asyncHandler(async (req, res) => {
+  const status = await emailSyncService.getAccountStatus(Number(req.params.id));
+
+  if (!status) {
+    throw createError('Account not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: status
+  });
+}));
+
+// List the server folders of an account with their canonical roles
+router.get('/accounts/:id/folders', asyncHandler(async (req, res) => {
+  const accountId = Number(req.params.id);
+
+  const account = await databaseService.query('SELECT folders FROM email_accounts WHERE id = $1', [accountId]);
+  if (account.rows.length === 0) {
+    throw createError('Account not found', 404);
+  }
+
+  let folders;
+  try {
+    folders = await emailSyncService.getAccountFolders(accountId, req.query.refresh === 'true');
+  } catch (error) {
+    logger.error('Failed to discover folders:', error);
+    throw createError('Failed to list folders on the mail server', 502);
+  }
+
+  const synced: string[] = account.rows[0].folders || [];
+
+  res.json({
+    success: true,
+    data: folders.map(folder => ({
+      ...folder,
+      isSynced: synced.includes(folder.path)
+    }))
+  });
+}));
+
+// Choose which folders to sync for an account
+router.put('/accounts/:id/folders', asyncHandler(async (req, res) => {
+  const accountId = Number(req.params.id);
+  const { folders } = req.body;
+
+  if (!Array.isArray(folders) || folders.length === 0 || folders.some(folder => typeof folder !== 'string')) {
+    throw createError('Folders must be a non-empty array of folder names', 400);
+  }
+
+  const account = await databaseService.query('SELECT id FROM email_accounts WHERE id = $1', [accountId]);
+  if (account.rows.length === 0) {
+    throw createError('Account not found', 404);
+  }
+
+  await emailSyncService.updateAccountFolders(accountId, folders);
+
+  res.json({
+    success: true,
+    data: { folders }
+  });
+}));
+
+// Start a historical backfill for an account
+router.post('/accounts/:id/backfill', asyncHandler(async (req, res) => {
+  const accountId = Number(req.params.id);
+  const { dateFrom, dateTo, folders } = req.body;
+
+  if (folders !== undefined && !Array.isArray(folders)) {
+    throw createError('Folders must be an array', 400);
+  }
+
+  if ((dateFrom && isNaN(Date.parse(dateFrom))) || (dateTo && isNaN(Date.parse(dateTo)))) {
+    throw createError('Invalid date range', 400);
+  }
+
+  const account = await databaseService.query('SELECT id FROM email_accounts WHERE id = $1', [accountId]);
+  if (account.rows.length === 0) {
+    throw createError('Account not found', 404);
+  }
+
+  try {
+    const job = await emailSyncService.startBackfill(accountId, { dateFrom, dateTo, folders: folders || [] });
+    res.status(202).json({
+      success: true,
+      data: job
+    });
+  } catch (error: any) {
+    throw createError(error.message, 409);
+  }
+}));
+
+// List backfill jobs for an account
+router.get('/accounts/:id/backfill', asyncHandler(async (req, res) => {
+  const jobs = await emailSyncService.getBackfillJobs(Number(req.params.id));
+
+  res.json({
+    success: true,
+    data: jobs
   });
 }));
 
@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import { createReadStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { ExportService, ExportCriteria, ExportFormat, ExportJob, EXPORT_FORMATS } from '../services/ExportService';
+import { logger } from '../utils/logger';
+import { isEmailId } from '../utils/emailIdentity';
+
+const router = Router();
+
+// Initialize services (these would be injected in a real app)
+let exportService: ExportService;
+
+export const initializeExportRoutes = (exporter: ExportService) => {
+  exportService = exporter;
+};
+
+const parseFormat = (value: any): ExportFormat => {
+  const format = (value || 'mbox') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw createError(`Invalid export format, expected one of: ${EXPORT_FORMATS.join(', ')}`, 400);
+  }
+  return format;
+};
+
+// `searchQuery` is a JSON `POST /api/search/advanced` body; otherwise the remaining parameters are `GET /api/emails` filters
+const parseCriteria = (query: Record<string, any>): ExportCriteria => {
+  const { format, background, searchQuery, ...filters } = query;
+
+  if (searchQuery === undefined) {
+    return { filters };
+  }
+
+  let search: any;
+  try {
+    search = JSON.parse(String(searchQuery));
+  } catch {
+    throw createError('searchQuery must be JSON', 400);
+  }
+  if (!search?.query) {
+    throw createError('searchQuery must contain a query', 400);
+  }
+  return { search: { query: search.query, filters: search.filters, sort: search.sort } };
+};
+
+const toApiJob = (job: ExportJob, baseUrl: string) => ({
+  ...job,
+  downloadUrl: job.status === 'completed' ? `${baseUrl}/jobs/${job.id}/download` : null
+});
+
+const getJob = async (id: string): Promise<ExportJob> => {
+  // Job ids are UUIDs like email ids
+  const job = isEmailId(id) ? await exportService.getJob(id) : null;
+  if (!job) {
+    throw createError('Export job not found', 404);
+  }
+  return job;
+};
+
+// Export emails as mbox, eml (zip), csv or jsonl; large exports become background jobs
+router.get('/', asyncHandler(async (req, res) => {
+  const format = parseFormat(req.query.format);
+  const criteria = parseCriteria(req.query);
+  const maxStreamed = parseInt(process.env.EXPORT_STREAM_MAX_EMAILS || '1000');
+
+  const total = await exportService.count(criteria);
+
+  if (req.query.background === 'true' || total > maxStreamed) {
+    const job = await exportService.createJob(format, criteria, total);
+    res.status(202).json({
+      success: true,
+      data: toApiJob(job, `${req.protocol}://${req.get('host')}${req.baseUrl}`)
+    });
+    return;
+  }
+
+  const stream = await exportService.createStream(format, criteria);
+  res.setHeader('Content-Type', exportService.getContentType(format));
+  res.setHeader('Content-Disposition', `attachment; filename="${exportService.getFileName(format)}"`);
+  res.setHeader('X-Total-Count', String(total));
+
+  try {
+    await pipeline(stream, res);
+  } catch (error) {
+    // Headers are gone; all that is left is to cut the download short
+    logger.error('Failed to stream export:', error);
+    res.destroy();
+  }
+}));
+
+// Status of a background export, with its download link once completed
+router.get('/jobs/:id', asyncHandler(async (req, res) => {
+  const job = await getJob(req.params.id);
+
+  res.json({
+    success: true,
+    data: toApiJob(job, `${req.protocol}://${req.get('host')}${req.baseUrl}`)
+  });
+}));
+
+router.get('/jobs/:id/download', asyncHandler(async (req, res) => {
+  const job = await getJob(req.params.id);
+
+  if (job.status === 'pending' || job.status === 'running') {
+    throw createError('Export is not finished yet', 409);
+  }
+  if (job.status === 'failed') {
+    throw createError(`Export failed: ${job.error}`, 409);
+  }
+
+  const filePath = await exportService.getJobFilePath(job);
+  if (!filePath) {
+    throw createError('Export file has expired', 410);
+  }
+
+  res.setHeader('Content-Type', exportService.getContentType(job.format));
+  res.setHeader('Content-Disposition', `attachment; filename="${exportService.getFileName(job.format, new Date(job.createdAt))}"`);
+  if (job.fileSize !== null) {
+    res.setHeader('Content-Length', String(job.fileSize));
+  }
+
+  const stream = createReadStream(filePath);
+  stream.on('error', (error) => {
+    logger.error(`Failed to stream export ${job.id}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+}));
+
+export { router as exportRoutes };
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { promises as fs } from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { ImportService } from '../services/ImportService';
+import { isEmailId } from '../utils/emailIdentity';
+
+const router = Router();
+
+// Initialize services (these would be injected in a real app)
+let importService: ImportService;
+
+export const initializeImportRoutes = (imports: ImportService) => {
+  importService = imports;
+};
+
+// Uploads are kept on disk until their import job has read them a message or zip entry at a time
+const upload = multer({
+  dest: path.resolve(process.env.IMPORT_STORAGE_PATH || './data/imports'),
+  limits: {
+    fileSize: parseInt(process.env.IMPORT_MAX_FILE_MB || '1024') * 1024 * 1024,
+    files: parseInt(process.env.IMPORT_MAX_FILES || '100')
+  }
+});
+
+const receiveFiles = (req: any, res: any, next: any) => {
+  upload.array('files')(req, res, (error: any) => {
+    if (error instanceof multer.MulterError) {
+      return next(createError(`Upload rejected: ${error.message}`, error.code === 'LIMIT_FILE_SIZE' ? 413 : 400));
+    }
+    next(error);
+  });
+};
+
+// Import .mbox, .eml and zipped Maildir or .eml archives into the "Imported" account in the background
+router.post('/', receiveFiles, asyncHandler(async (req, res) => {
+  const files = (req.files || []) as Express.Multer.File[];
+  const { folder } = req.body;
+
+  let job;
+  try {
+    if (files.length === 0) {
+      throw createError('At least one file is required in the "files" field', 400);
+    }
+
+    job = await importService.createJob(
+      files.map(file => ({ path: file.path, name: file.originalname })),
+      { folder: folder || undefined }
+    );
+  } catch (error) {
+    // Files only outlive the request once a job owns them
+    await Promise.all(files.map(file => fs.rm(file.path, { force: true })));
+    throw error;
+  }
+
+  res.status(202).json({
+    success: true,
+    data: job
+  });
+}));
+
+// Progress of a background import, with its report once completed
+router.get('/jobs/:id', asyncHandler(async (req, res) => {
+  // Job ids are UUIDs like email ids
+  const job = isEmailId(req.params.id) ? await importService.getJob(req.params.id) : null;
+  if (!job) {
+    throw createError('Import job not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: job
+  });
+}));
+
+export { router as importRoutes };
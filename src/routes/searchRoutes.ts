@@ -3,6 +3,7 @@ import { asyncHandler, createError } from '../middleware/errorHandler';
 import { ElasticsearchService } from '../services/ElasticsearchService';
 import { VectorDBService } from '../services/VectorDBService';
 import { logger } from '../utils/logger';
+import { buildAdvancedSearchQuery } from '../utils/searchQuery';
 
 const router = Router();
 
@@ -24,6 +25,8 @@ router.get('/', asyncHandler(async (req, res) => {
     q: searchText,
     accountId,
     folder,
+    folderRole,
+    label,
     aiCategory,
     dateFrom,
     dateTo,
@@ -38,6 +41,8 @@ router.get('/', asyncHandler(async (req, res) => {
   const filters: any = {};
   if (accountId) filters.accountId = Number(accountId);
   if (folder) filters.folder = folder;
+  if (folderRole) filters.folderRole = folderRole;
+  if (label) filters.label = label;
   if (aiCategory) filters.aiCategory = aiCategory;
   if (dateFrom || dateTo) {
     filters.dateRange = {
@@ -87,7 +92,7 @@ router.post('/advanced', asyncHandler(async (req, res) => {
   const {
     query,
     filters = {},
-    sort = { date: { order: 'desc' } },
+    sort,
     page = 1,
     limit = 20
   } = req.body;
@@ -99,68 +104,11 @@ router.post('/advanced', asyncHandler(async (req, res) => {
   const offset = (Number(page) - 1) * Number(limit);
 
   const searchQuery = {
-    query: {
-      bool: {
-        must: [
-          {
-            multi_match: {
-              query: query.text || '',
-              fields: query.fields || ['subject^2', 'bodyText', 'fromName', 'fromEmail'],
-              type: query.type || 'best_fields',
-              fuzziness: query.fuzziness || 'AUTO'
-            }
-          }
-        ],
-        filter: []
-      }
-    },
-    sort: [sort],
+    ...buildAdvancedSearchQuery({ query, filters, sort }),
     from: offset,
     size: Number(limit)
   };
 
-    // Add filters
-    if (filters.accountId) {
-      (searchQuery.query.bool.filter as any[]).push({
-        term: { accountId: filters.accountId }
-      });
-    }
-
-    if (filters.folder) {
-      (searchQuery.query.bool.filter as any[]).push({
-        term: { folder: filters.folder }
-      });
-    }
-
-    if (filters.aiCategory) {
-      (searchQuery.query.bool.filter as any[]).push({
-        term: { aiCategory: filters.aiCategory }
-      });
-    }
-
-    if (filters.dateRange) {
-      (searchQuery.query.bool.filter as any[]).push({
-        range: {
-          date: {
-            gte: filters.dateRange.from,
-            lte: filters.dateRange.to
-          }
-        }
-      });
-    }
-
-    if (filters.isRead !== undefined) {
-      (searchQuery.query.bool.filter as any[]).push({
-        term: { isRead: filters.isRead }
-      });
-    }
-
-    if (filters.isImportant !== undefined) {
-      (searchQuery.query.bool.filter as any[]).push({
-        term: { isImportant: filters.isImportant }
-      });
-    }
-
   try {
     const searchResult = await elasticsearchService.searchEmails(searchQuery);
     const hits = searchResult.hits?.hits || [];
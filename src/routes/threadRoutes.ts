@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { ThreadingService } from '../services/ThreadingService';
+import { rewriteCidLinks } from '../utils/cidLinks';
+
+const router = Router();
+
+// Initialize services (these would be injected in a real app)
+let threadingService: ThreadingService;
+
+export const initializeThreadRoutes = (threading: ThreadingService) => {
+  threadingService = threading;
+};
+
+// List conversations, most recent activity first
+router.get('/', asyncHandler(async (req, res) => {
+  const {
+    page = 1,
+    limit = 20,
+    accountId,
+    folder,
+    category,
+    search,
+    isRead
+  } = req.query;
+
+  const { threads, totalCount } = await threadingService.listThreads({
+    accountId: accountId ? Number(accountId) : undefined,
+    folder: folder as string | undefined,
+    category: category as string | undefined,
+    search: search as string | undefined,
+    isRead: isRead !== undefined && isRead !== '' ? isRead === 'true' : undefined,
+    page: Number(page),
+    limit: Number(limit)
+  });
+
+  res.json({
+    success: true,
+    data: {
+      threads,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        totalCount,
+        totalPages: Math.ceil(totalCount / Number(limit))
+      }
+    }
+  });
+}));
+
+// Get a conversation with all of its messages in date order
+router.get('/:id', asyncHandler(async (req, res) => {
+  const threadId = Number(req.params.id);
+  if (!Number.isInteger(threadId)) {
+    throw createError('Invalid thread id', 400);
+  }
+
+  const thread = await threadingService.getThread(threadId);
+  if (!thread) {
+    throw createError('Thread not found', 404);
+  }
+
+  const baseUrl = `${req.protocol}://${req.get('host')}`;
+  for (const message of thread.messages) {
+    if (message.bodyHtml) {
+      message.bodyHtml = rewriteCidLinks(message.bodyHtml, message.id, message.attachments, baseUrl);
+    }
+  }
+
+  res.json({
+    success: true,
+    data: thread
+  });
+}));
+
+export { router as threadRoutes };
@@ -0,0 +1,82 @@
+import dotenv from 'dotenv';
+import { Server as SocketIOServer } from 'socket.io';
+import { DatabaseService } from '../services/DatabaseService';
+import { ElasticsearchService } from '../services/ElasticsearchService';
+import { VectorDBService } from '../services/VectorDBService';
+import { AIService } from '../services/AIService';
+import { SlackService } from '../services/SlackService';
+import { WebhookService } from '../services/WebhookService';
+import { OAuthService } from '../services/OAuthService';
+import { createBlobStore } from '../services/BlobStore';
+import { ThreadingService } from '../services/ThreadingService';
+import { OutboxService } from '../services/OutboxService';
+import { EmailSyncService } from '../services/EmailSyncService';
+import { ImportService } from '../services/ImportService';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Import .mbox files, .eml files, Maildir directories and zips of them into
+ * the "Imported" account:
+ *
+ *   npm run emails:import -- [--folder <name>] <path>...
+ */
+const importEmails = async (): Promise<void> => {
+  const args = process.argv.slice(2);
+  const folderIndex = args.indexOf('--folder');
+  const folder = folderIndex >= 0 ? args[folderIndex + 1] : undefined;
+  const paths = args.filter((arg, index) => arg !== '--folder' && (folderIndex < 0 || index !== folderIndex + 1));
+
+  if (paths.length === 0) {
+    throw new Error('Usage: npm run emails:import -- [--folder <name>] <path>...');
+  }
+
+  const databaseService = new DatabaseService();
+  const elasticsearchService = new ElasticsearchService();
+  const vectorDBService = new VectorDBService();
+
+  await databaseService.initialize();
+  await elasticsearchService.initialize();
+  await vectorDBService.initialize();
+
+  try {
+    const outboxService = new OutboxService(databaseService, elasticsearchService, vectorDBService);
+    // Not attached to a server: imports emit no real-time events
+    const emailSyncService = new EmailSyncService(
+      elasticsearchService,
+      new AIService(),
+      new SlackService(),
+      new WebhookService(),
+      vectorDBService,
+      new OAuthService(),
+      createBlobStore(),
+      new ThreadingService(databaseService, outboxService),
+      outboxService,
+      new SocketIOServer()
+    );
+    const importService = new ImportService(databaseService, emailSyncService);
+
+    const report = await importService.importSources(paths.map(path => ({ path })), { folder });
+    for (const source of report.sources) {
+      logger.info(`${source.source}: ${source.status}, ${source.imported} imported, ${source.duplicates} duplicates, ${source.failed} failed${source.errors.length ? ` (${source.errors.join('; ')})` : ''}`);
+    }
+
+    // Index everything before exiting
+    await outboxService.dispatch();
+    logger.info(`Import finished: ${report.imported} imported, ${report.duplicates} duplicates, ${report.failed} failed`);
+
+    if (report.sources.some(source => source.status === 'failed')) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await databaseService.close();
+    await elasticsearchService.close();
+    await vectorDBService.close();
+  }
+};
+
+importEmails().catch((error) => {
+  logger.error(`Import failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import { DatabaseService } from '../services/DatabaseService';
+import { ElasticsearchService } from '../services/ElasticsearchService';
+import { VectorDBService } from '../services/VectorDBService';
+import { OutboxService } from '../services/OutboxService';
+import { StoreIntegrityService } from '../services/StoreIntegrityService';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Compare Postgres with Elasticsearch and Chroma and print the drift. With
+ * `--repair`, reindex the drifted emails from Postgres and wait for the
+ * outbox to apply the changes.
+ */
+const reconcileStores = async (): Promise<void> => {
+  const repair = process.argv.includes('--repair');
+
+  const databaseService = new DatabaseService();
+  const elasticsearchService = new ElasticsearchService();
+  const vectorDBService = new VectorDBService();
+
+  await databaseService.initialize();
+  await elasticsearchService.initialize();
+  await vectorDBService.initialize();
+
+  try {
+    const outboxService = new OutboxService(databaseService, elasticsearchService, vectorDBService);
+    const integrityService = new StoreIntegrityService(databaseService, elasticsearchService, vectorDBService, outboxService);
+
+    const report = await integrityService.reconcile({ repair });
+    logger.info(`Reconciliation report: ${JSON.stringify(report)}`);
+
+    if (repair) {
+      await outboxService.dispatch();
+      const outbox = await outboxService.getReport();
+      logger.info(`Outbox after repair: ${JSON.stringify(outbox.counts)}`);
+    }
+  } finally {
+    await databaseService.close();
+    await elasticsearchService.close();
+    await vectorDBService.close();
+  }
+};
+
+reconcileStores().catch((error) => {
+  logger.error(`Reconciliation failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+import dotenv from 'dotenv';
+import { DatabaseService } from '../services/DatabaseService';
+import { decryptSecret, encryptSecret, needsReencryption, validateCredentialKeys } from '../utils/credentials';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+const SECRET_COLUMNS = ['password', 'refresh_token', 'access_token', 'smtp_password'];
+
+/**
+ * Encrypt plaintext credentials and re-wrap credentials sealed with a retired
+ * key under CREDENTIALS_ENCRYPTION_KEY. To rotate, set the new key, move the
+ * old one to CREDENTIALS_PREVIOUS_KEYS, run this, then drop the old key.
+ */
+const reencryptCredentials = async (): Promise<void> => {
+  validateCredentialKeys();
+  const databaseService = new DatabaseService();
+  await databaseService.initialize();
+
+  try {
+    const updated = await databaseService.transaction(async (client) => {
+      const result = await client.query(`
+        SELECT id, name, ${SECRET_COLUMNS.join(', ')}
+        FROM email_accounts
+        FOR UPDATE
+      `);
+
+      let count = 0;
+      for (const row of result.rows) {
+        const stale = SECRET_COLUMNS.filter(column => needsReencryption(row[column]));
+        if (stale.length === 0) continue;
+
+        const assignments = stale.map((column, index) => `${column} = $${index + 2}`).join(', ');
+        await client.query(
+          `UPDATE email_accounts SET ${assignments}, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+          [row.id, ...stale.map(column => encryptSecret(decryptSecret(row[column])))]
+        );
+
+        logger.info(`Re-encrypted ${stale.join(', ')} for account ${row.name}`);
+        count++;
+      }
+
+      return count;
+    });
+
+    logger.info(`Credential re-encryption finished, ${updated} accounts updated`);
+  } finally {
+    await databaseService.close();
+  }
+};
+
+reencryptCredentials().catch((error) => {
+  logger.error(`Credential re-encryption failed: ${error.message}`);
+  process.exit(1);
+});
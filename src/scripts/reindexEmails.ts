@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+import { DatabaseService } from '../services/DatabaseService';
+import { ElasticsearchService } from '../services/ElasticsearchService';
+import { ReindexService } from '../services/ReindexService';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Rebuild the Elasticsearch index from Postgres with the current mapping and
+ * swap the alias to it. Pass `--keep-old` to leave the previous index in
+ * place.
+ */
+const reindexEmails = async (): Promise<void> => {
+  const keepOldIndices = process.argv.includes('--keep-old');
+
+  const databaseService = new DatabaseService();
+  const elasticsearchService = new ElasticsearchService();
+
+  await databaseService.initialize();
+  await elasticsearchService.initialize();
+
+  try {
+    const reindexService = new ReindexService(databaseService, elasticsearchService);
+    let lastLogged = 0;
+
+    const progress = await reindexService.reindex({
+      keepOldIndices,
+      onProgress: (current) => {
+        // One line per 10% copied
+        const step = Math.floor((current.indexed / Math.max(current.total, 1)) * 10);
+        if (step > lastLogged) {
+          lastLogged = step;
+          logger.info(`Reindexed ${current.indexed}/${current.total} emails`);
+        }
+      }
+    });
+    logger.info(`Reindex finished: ${JSON.stringify(progress)}`);
+  } finally {
+    await databaseService.close();
+    await elasticsearchService.close();
+  }
+};
+
+reindexEmails().catch((error) => {
+  logger.error(`Reindex failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import { DatabaseService } from '../services/DatabaseService';
+import { ElasticsearchService } from '../services/ElasticsearchService';
+import { VectorDBService } from '../services/VectorDBService';
+import { StoreIntegrityService } from '../services/StoreIntegrityService';
+import { OutboxService } from '../services/OutboxService';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Re-key Elasticsearch and Chroma documents indexed before email ids were
+ * unified so they use the Postgres `public_id`, then print the integrity
+ * report. Safe to run more than once.
+ */
+const rekeySearchStores = async (): Promise<void> => {
+  const databaseService = new DatabaseService();
+  const elasticsearchService = new ElasticsearchService();
+  const vectorDBService = new VectorDBService();
+
+  await databaseService.initialize();
+  await elasticsearchService.initialize();
+  await vectorDBService.initialize();
+
+  try {
+    const outboxService = new OutboxService(databaseService, elasticsearchService, vectorDBService);
+    const integrityService = new StoreIntegrityService(databaseService, elasticsearchService, vectorDBService, outboxService);
+    const result = await integrityService.rekeySearchStores();
+    logger.info(`Re-keying finished: ${result.elasticsearch} Elasticsearch and ${result.vector} vector documents moved, ${result.unmatched} unmatched`);
+
+    const report = await integrityService.checkIntegrity();
+    logger.info(`Integrity after re-keying: ${JSON.stringify(report)}`);
+  } finally {
+    await databaseService.close();
+    await elasticsearchService.close();
+    await vectorDBService.close();
+  }
+};
+
+rekeySearchStores().catch((error) => {
+  logger.error(`Re-keying failed: ${error.message}`);
+  process.exit(1);
+});
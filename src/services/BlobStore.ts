@@ -0,0 +1,108 @@
+import { createHash, randomBytes } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { logger } from '../utils/logger';
+
+/**
+ * Content-addressed storage for raw message sources and attachments. Blobs
+ * are keyed by the SHA-256 of their bytes, so storing the same content twice
+ * keeps a single copy.
+ */
+export interface BlobStore {
+  put(data: Buffer): Promise<string>;
+  get(id: string): Promise<Buffer | null>;
+  createReadStream(id: string): Promise<Readable | null>;
+  exists(id: string): Promise<boolean>;
+  delete(id: string): Promise<void>;
+}
+
+const BLOB_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+export const computeBlobId = (data: Buffer): string => {
+  return createHash('sha256').update(data).digest('hex');
+};
+
+export class LocalBlobStore implements BlobStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(data: Buffer): Promise<string> {
+    const id = computeBlobId(data);
+    const target = this.getPath(id);
+
+    if (await this.exists(id)) {
+      return id;
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Write then rename so readers never see a partial blob
+    const temp = `${target}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(temp, data);
+      await fs.rename(temp, target);
+    } catch (error) {
+      await fs.unlink(temp).catch(() => undefined);
+      logger.error(`Failed to store blob ${id}:`, error);
+      throw error;
+    }
+
+    return id;
+  }
+
+  async get(id: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.getPath(id));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(id: string): Promise<Readable | null> {
+    if (!await this.exists(id)) {
+      return null;
+    }
+    return createReadStream(this.getPath(id));
+  }
+
+  async exists(id: string): Promise<boolean> {
+    try {
+      await fs.access(this.getPath(id));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await fs.unlink(this.getPath(id));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  // Two levels of fan-out keep directories small
+  private getPath(id: string): string {
+    if (!BLOB_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid blob id: ${id}`);
+    }
+    return path.join(this.rootDir, id.slice(0, 2), id.slice(2, 4), id);
+  }
+}
+
+export const createBlobStore = (): BlobStore => {
+  const driver = process.env.BLOB_STORE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalBlobStore(process.env.BLOB_STORAGE_PATH || './data/blobs');
+    default:
+      throw new Error(`Unsupported blob store driver: ${driver}`);
+  }
+};
@@ -59,11 +59,37 @@ export class DatabaseService {
         )
       `);
 
+      // OAuth2 accounts authenticate with XOAUTH2 tokens instead of a password
+      await client.query(`
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS auth_type VARCHAR(20) NOT NULL DEFAULT 'password';
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS oauth_provider VARCHAR(20);
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS refresh_token TEXT;
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS access_token TEXT;
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS access_token_expires_at TIMESTAMP;
+        ALTER TABLE email_accounts ALTER COLUMN password DROP NOT NULL;
+      `);
+
+      // Synced accounts are 'imap' or 'pop3'; 'import' is the virtual account holding imported archives
+      await client.query(`
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS account_type VARCHAR(20) NOT NULL DEFAULT 'imap';
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS leave_on_server BOOLEAN NOT NULL DEFAULT true;
+      `);
+
+      // Outgoing mail server; without its own username and password it logs in with the account's
+      await client.query(`
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS smtp_host VARCHAR(255);
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS smtp_port INTEGER;
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS smtp_secure BOOLEAN;
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS smtp_username VARCHAR(255);
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS smtp_password TEXT;
+        ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS smtp_from VARCHAR(255);
+      `);
+
       // Emails table
       await client.query(`
         CREATE TABLE IF NOT EXISTS emails (
           id SERIAL PRIMARY KEY,
-          message_id VARCHAR(255) UNIQUE NOT NULL,
+          message_id VARCHAR(255) NOT NULL,
           account_id INTEGER REFERENCES email_accounts(id),
           folder VARCHAR(100) NOT NULL,
           subject TEXT,
@@ -88,6 +114,244 @@ export class DatabaseService {
         )
       `);
 
+      // Server location of each email, used to reconcile flags and expunges
+      await client.query(`
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS uid BIGINT;
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS uid_validity BIGINT;
+      `);
+
+      await client.query(`
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS folder_role VARCHAR(20);
+      `);
+
+      // SHA-256 of the raw RFC 822 source in the blob store
+      await client.query(`
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS raw_blob_id VARCHAR(64);
+      `);
+
+      // Text extracted from PDF, DOCX and plain-text attachments
+      await client.query(`
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS attachment_text TEXT;
+      `);
+
+      // Emails are identified per account, so the same Message-ID may appear once in each account
+      await client.query(`
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS public_id UUID;
+        ALTER TABLE emails DROP CONSTRAINT IF EXISTS emails_message_id_key;
+        UPDATE emails SET public_id = md5(COALESCE(account_id::text, '') || ':' || message_id)::uuid WHERE public_id IS NULL;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_emails_public_id ON emails(public_id);
+      `);
+
+      // Every folder an email is stored in; emails.folder/uid is the location used for write-back
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS email_locations (
+          email_id INTEGER REFERENCES emails(id) ON DELETE CASCADE,
+          account_id INTEGER REFERENCES email_accounts(id) ON DELETE CASCADE,
+          folder VARCHAR(255) NOT NULL,
+          folder_role VARCHAR(20),
+          uid BIGINT NOT NULL,
+          uid_validity BIGINT NOT NULL,
+          flags TEXT[] NOT NULL DEFAULT '{}',
+          first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (email_id, folder)
+        )
+      `);
+
+      await client.query(`
+        INSERT INTO email_locations (email_id, account_id, folder, folder_role, uid, uid_validity, flags)
+        SELECT e.id, e.account_id, e.folder, e.folder_role, e.uid, e.uid_validity, COALESCE(e.flags, '{}')
+        FROM emails e
+        WHERE e.uid IS NOT NULL AND e.uid_validity IS NOT NULL AND e.account_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM email_locations l WHERE l.email_id = e.id)
+      `);
+
+      // Conversations built from In-Reply-To/References headers
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS email_threads (
+          id SERIAL PRIMARY KEY,
+          account_id INTEGER REFERENCES email_accounts(id) ON DELETE SET NULL,
+          normalized_subject TEXT NOT NULL DEFAULT '',
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await client.query(`
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS thread_id INTEGER REFERENCES email_threads(id) ON DELETE SET NULL;
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS in_reply_to TEXT;
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS reference_ids TEXT[];
+      `);
+
+      // Gmail (X-GM-EXT-1) labels and ids; Gmail conversations are grouped by X-GM-THRID
+      await client.query(`
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS labels TEXT[];
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS gmail_msgid VARCHAR(20);
+        ALTER TABLE emails ADD COLUMN IF NOT EXISTS gmail_thread_id VARCHAR(20);
+        ALTER TABLE email_threads ADD COLUMN IF NOT EXISTS gmail_thread_id VARCHAR(20);
+      `);
+
+      // Mailboxes discovered on the server with their canonical special-use role
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS email_folders (
+          account_id INTEGER REFERENCES email_accounts(id) ON DELETE CASCADE,
+          path VARCHAR(255) NOT NULL,
+          delimiter VARCHAR(5),
+          role VARCHAR(20) NOT NULL,
+          attributes TEXT[] NOT NULL DEFAULT '{}',
+          is_selectable BOOLEAN NOT NULL DEFAULT true,
+          discovered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (account_id, path)
+        )
+      `);
+
+      // Connection health of each account, kept across restarts
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS account_status (
+          account_id INTEGER PRIMARY KEY REFERENCES email_accounts(id) ON DELETE CASCADE,
+          status VARCHAR(20) NOT NULL,
+          last_error TEXT,
+          last_error_at TIMESTAMP,
+          last_connected_at TIMESTAMP,
+          last_successful_sync_at TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Per-folder IMAP sync state (UIDVALIDITY + highest UID seen)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS folder_sync_state (
+          account_id INTEGER REFERENCES email_accounts(id) ON DELETE CASCADE,
+          folder VARCHAR(255) NOT NULL,
+          uid_validity BIGINT NOT NULL,
+          last_uid BIGINT NOT NULL DEFAULT 0,
+          last_sync_at TIMESTAMP,
+          PRIMARY KEY (account_id, folder)
+        )
+      `);
+
+      await client.query(`
+        ALTER TABLE folder_sync_state ADD COLUMN IF NOT EXISTS highest_modseq BIGINT;
+      `);
+
+      // IMAP messages that failed to sync, counted so a message that keeps failing is skipped
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS failed_messages (
+          account_id INTEGER REFERENCES email_accounts(id) ON DELETE CASCADE,
+          folder VARCHAR(255) NOT NULL,
+          uid_validity BIGINT NOT NULL,
+          uid BIGINT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (account_id, folder, uid_validity, uid)
+        )
+      `);
+
+      // UIDLs of POP3 messages already retrieved, so mail left on the server is fetched once
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS pop3_retrieved (
+          account_id INTEGER REFERENCES email_accounts(id) ON DELETE CASCADE,
+          uidl VARCHAR(70) NOT NULL,
+          retrieved_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (account_id, uidl)
+        )
+      `);
+
+      // Historical backfill jobs, checkpointed per folder so they survive restarts
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS backfill_jobs (
+          id SERIAL PRIMARY KEY,
+          account_id INTEGER REFERENCES email_accounts(id) ON DELETE CASCADE,
+          folders TEXT[] NOT NULL,
+          date_from TIMESTAMP,
+          date_to TIMESTAMP,
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          completed_folders TEXT[] NOT NULL DEFAULT '{}',
+          current_folder VARCHAR(255),
+          checkpoint_uid BIGINT NOT NULL DEFAULT 0,
+          checkpoint_uid_validity BIGINT,
+          total_messages INTEGER NOT NULL DEFAULT 0,
+          processed_messages INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await client.query(`
+        ALTER TABLE backfill_jobs ADD COLUMN IF NOT EXISTS failed_messages INTEGER NOT NULL DEFAULT 0;
+      `);
+
+      // Local actions waiting to be written back to the IMAP server
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS pending_imap_operations (
+          id SERIAL PRIMARY KEY,
+          account_id INTEGER REFERENCES email_accounts(id) ON DELETE CASCADE,
+          email_id INTEGER,
+          folder VARCHAR(255) NOT NULL,
+          uid BIGINT NOT NULL,
+          uid_validity BIGINT NOT NULL,
+          operation VARCHAR(20) NOT NULL,
+          payload JSONB NOT NULL DEFAULT '{}',
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Search index changes committed with the email row, applied by the outbox dispatcher
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS email_outbox (
+          id BIGSERIAL PRIMARY KEY,
+          email_id UUID NOT NULL,
+          target VARCHAR(20) NOT NULL,
+          operation VARCHAR(20) NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          locked_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Background exports; the file lives under EXPORT_STORAGE_PATH until expires_at
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS export_jobs (
+          id UUID PRIMARY KEY,
+          format VARCHAR(10) NOT NULL,
+          criteria JSONB NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          total INTEGER,
+          exported INTEGER NOT NULL DEFAULT 0,
+          file_name TEXT,
+          file_size BIGINT,
+          error TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          started_at TIMESTAMP,
+          finished_at TIMESTAMP,
+          expires_at TIMESTAMP
+        )
+      `);
+
+      // Uploaded archives imported in the background, one job at a time
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS import_jobs (
+          id UUID PRIMARY KEY,
+          sources JSONB NOT NULL,
+          folder TEXT,
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          processed_sources INTEGER NOT NULL DEFAULT 0,
+          report JSONB,
+          error TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          started_at TIMESTAMP,
+          finished_at TIMESTAMP
+        )
+      `);
+
       // AI categories table
       await client.query(`
         CREATE TABLE IF NOT EXISTS ai_categories (
@@ -128,6 +392,20 @@ export class DatabaseService {
         CREATE INDEX IF NOT EXISTS idx_emails_date ON emails(date);
         CREATE INDEX IF NOT EXISTS idx_emails_ai_category ON emails(ai_category);
         CREATE INDEX IF NOT EXISTS idx_emails_from_email ON emails(from_email);
+        CREATE INDEX IF NOT EXISTS idx_emails_location ON emails(account_id, folder, uid);
+        CREATE INDEX IF NOT EXISTS idx_emails_folder_role ON emails(folder_role);
+        CREATE INDEX IF NOT EXISTS idx_emails_thread_id ON emails(thread_id);
+        CREATE INDEX IF NOT EXISTS idx_email_locations_folder ON email_locations(account_id, folder, uid_validity);
+        CREATE INDEX IF NOT EXISTS idx_emails_in_reply_to ON emails(in_reply_to);
+        CREATE INDEX IF NOT EXISTS idx_emails_reference_ids ON emails USING gin(reference_ids);
+        CREATE INDEX IF NOT EXISTS idx_email_threads_subject ON email_threads(account_id, normalized_subject);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_email_threads_gmail ON email_threads(account_id, gmail_thread_id) WHERE gmail_thread_id IS NOT NULL;
+        CREATE INDEX IF NOT EXISTS idx_emails_labels ON emails USING gin(labels);
+        CREATE INDEX IF NOT EXISTS idx_pending_imap_operations_account ON pending_imap_operations(account_id, status, next_attempt_at);
+        CREATE INDEX IF NOT EXISTS idx_email_outbox_pending ON email_outbox(status, next_attempt_at);
+        CREATE INDEX IF NOT EXISTS idx_export_jobs_status ON export_jobs(status, created_at);
+        CREATE INDEX IF NOT EXISTS idx_import_jobs_status ON import_jobs(status, created_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_email_accounts_import ON email_accounts(account_type) WHERE account_type = 'import';
         CREATE INDEX IF NOT EXISTS idx_emails_subject ON emails USING gin(to_tsvector('english', subject));
         CREATE INDEX IF NOT EXISTS idx_emails_body_text ON emails USING gin(to_tsvector('english', body_text));
       `);
@@ -1,12 +1,35 @@
-import { Client } from '@elastic/elasticsearch';
+import { Client, estypes } from '@elastic/elasticsearch';
 import { logger } from '../utils/logger';
 
+export interface EmailAttachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  cid?: string;
+  inline: boolean;
+  // SHA-256 of the content, also its key in the blob store; null if storing failed
+  blobId: string | null;
+  checksum: string | null;
+}
+
 export interface EmailDocument {
   id: string;
   messageId: string;
   accountId: number;
   accountName: string;
   folder: string;
+  folderRole?: string;
+  uid?: number;
+  uidValidity?: number;
+  rawBlobId?: string;
+  threadId?: number;
+  inReplyTo?: string;
+  references?: string[];
+  // Gmail only: X-GM-LABELS, X-GM-MSGID and X-GM-THRID
+  labels?: string[];
+  gmailMessageId?: string;
+  gmailThreadId?: string;
   subject: string;
   fromEmail: string;
   fromName: string;
@@ -19,7 +42,8 @@ export interface EmailDocument {
   flags: string[];
   bodyText: string;
   bodyHtml: string;
-  attachments: any[];
+  attachments: EmailAttachment[];
+  attachmentText?: string;
   aiCategory: string;
   aiConfidence: number;
   isRead: boolean;
@@ -28,6 +52,76 @@ export interface EmailDocument {
   updatedAt: string;
 }
 
+// Bump when EMAIL_INDEX_SETTINGS or EMAIL_INDEX_MAPPINGS change, then run `npm run emails:reindex`
+export const EMAIL_INDEX_VERSION = 2;
+
+const EMAIL_INDEX_SETTINGS: estypes.IndicesIndexSettings = {
+  number_of_shards: 1,
+  number_of_replicas: 0,
+  analysis: {
+    analyzer: {
+      email_analyzer: {
+        type: 'custom',
+        tokenizer: 'standard',
+        filter: ['lowercase', 'stop', 'snowball']
+      }
+    }
+  }
+};
+
+const EMAIL_INDEX_MAPPINGS: estypes.MappingTypeMapping = {
+  properties: {
+    messageId: { type: 'keyword' },
+    accountId: { type: 'integer' },
+    accountName: { type: 'keyword' },
+    folder: { type: 'keyword' },
+    folderRole: { type: 'keyword' },
+    uid: { type: 'long' },
+    uidValidity: { type: 'long' },
+    threadId: { type: 'integer' },
+    inReplyTo: { type: 'keyword' },
+    references: { type: 'keyword' },
+    labels: { type: 'keyword' },
+    gmailMessageId: { type: 'keyword' },
+    gmailThreadId: { type: 'keyword' },
+    subject: { 
+      type: 'text',
+      analyzer: 'email_analyzer',
+      fields: {
+        keyword: { type: 'keyword' }
+      }
+    },
+    fromEmail: { type: 'keyword' },
+    fromName: { 
+      type: 'text',
+      analyzer: 'email_analyzer'
+    },
+    toEmails: { type: 'keyword' },
+    ccEmails: { type: 'keyword' },
+    bccEmails: { type: 'keyword' },
+    date: { type: 'date' },
+    receivedDate: { type: 'date' },
+    size: { type: 'integer' },
+    flags: { type: 'keyword' },
+    bodyText: { 
+      type: 'text',
+      analyzer: 'email_analyzer'
+    },
+    bodyHtml: { type: 'text' },
+    attachments: { type: 'object' },
+    attachmentText: {
+      type: 'text',
+      analyzer: 'email_analyzer'
+    },
+    aiCategory: { type: 'keyword' },
+    aiConfidence: { type: 'float' },
+    isRead: { type: 'boolean' },
+    isImportant: { type: 'boolean' },
+    createdAt: { type: 'date' },
+    updatedAt: { type: 'date' }
+  }
+};
+
 export class ElasticsearchService {
   private client: Client;
   private indexName: string;
@@ -47,7 +141,7 @@ export class ElasticsearchService {
       this.isConnectedFlag = true;
       logger.info('Elasticsearch connected successfully');
 
-      // Create index if it doesn't exist
+      // Create a versioned index behind the alias if there is none yet
       await this.createIndex();
       
     } catch (error) {
@@ -56,78 +150,118 @@ export class ElasticsearchService {
     }
   }
 
+  /**
+   * Emails live in versioned indices (`<name>_v<version>_<timestamp>`) behind
+   * the `<name>` alias that every read and write goes through. A fresh
+   * cluster gets the current version; an outdated or pre-alias index keeps
+   * serving until it is rebuilt with `reindexEmails`.
+   */
   private async createIndex(): Promise<void> {
     try {
-      const indexExists = await this.client.indices.exists({
-        index: this.indexName
-      });
+      const aliasExists = await this.client.indices.existsAlias({ name: this.indexName });
+      if (aliasExists) {
+        const indices = await this.getAliasedIndices();
+        if (!indices.some(index => this.getIndexVersion(index) === EMAIL_INDEX_VERSION)) {
+          logger.warn(`Elasticsearch alias '${this.indexName}' points to ${indices.join(', ')}, not mapping version ${EMAIL_INDEX_VERSION}; run \`npm run emails:reindex\``);
+        }
+        return;
+      }
 
-      if (!indexExists) {
-        await this.client.indices.create({
-          index: this.indexName,
-          body: {
-            settings: {
-              number_of_shards: 1,
-              number_of_replicas: 0,
-              analysis: {
-                analyzer: {
-                  email_analyzer: {
-                    type: 'custom',
-                    tokenizer: 'standard',
-                    filter: ['lowercase', 'stop', 'snowball']
-                  }
-                }
-              }
-            },
-            mappings: {
-              properties: {
-                messageId: { type: 'keyword' },
-                accountId: { type: 'integer' },
-                accountName: { type: 'keyword' },
-                folder: { type: 'keyword' },
-                subject: { 
-                  type: 'text',
-                  analyzer: 'email_analyzer',
-                  fields: {
-                    keyword: { type: 'keyword' }
-                  }
-                },
-                fromEmail: { type: 'keyword' },
-                fromName: { 
-                  type: 'text',
-                  analyzer: 'email_analyzer'
-                },
-                toEmails: { type: 'keyword' },
-                ccEmails: { type: 'keyword' },
-                bccEmails: { type: 'keyword' },
-                date: { type: 'date' },
-                receivedDate: { type: 'date' },
-                size: { type: 'integer' },
-                flags: { type: 'keyword' },
-                bodyText: { 
-                  type: 'text',
-                  analyzer: 'email_analyzer'
-                },
-                bodyHtml: { type: 'text' },
-                attachments: { type: 'object' },
-                aiCategory: { type: 'keyword' },
-                aiConfidence: { type: 'float' },
-                isRead: { type: 'boolean' },
-                isImportant: { type: 'boolean' },
-                createdAt: { type: 'date' },
-                updatedAt: { type: 'date' }
-              }
-            }
-          }
-        });
-        logger.info(`Elasticsearch index '${this.indexName}' created successfully`);
+      const indexExists = await this.client.indices.exists({ index: this.indexName });
+      if (indexExists) {
+        logger.warn(`Elasticsearch index '${this.indexName}' predates versioned indices; run \`npm run emails:reindex\` to move it behind an alias`);
+        return;
       }
+
+      const index = await this.createVersionedIndex();
+      await this.client.indices.updateAliases({
+        body: {
+          actions: [{ add: { index, alias: this.indexName, is_write_index: true } }]
+        }
+      });
+      logger.info(`Elasticsearch index '${index}' created behind alias '${this.indexName}'`);
     } catch (error) {
       logger.error('Failed to create Elasticsearch index:', error);
       throw error;
     }
   }
 
+  /**
+   * Create an empty index with the current mapping, not yet behind the alias.
+   * With `bulkLoad`, refreshes are off until `finishBulkLoad`.
+   */
+  async createVersionedIndex(options: { bulkLoad?: boolean } = {}): Promise<string> {
+    const index = `${this.indexName}_v${EMAIL_INDEX_VERSION}_${Date.now()}`;
+    await this.client.indices.create({
+      index,
+      body: {
+        settings: options.bulkLoad ? { ...EMAIL_INDEX_SETTINGS, refresh_interval: '-1' } : EMAIL_INDEX_SETTINGS,
+        mappings: EMAIL_INDEX_MAPPINGS
+      }
+    });
+    return index;
+  }
+
+  async finishBulkLoad(index: string): Promise<void> {
+    await this.client.indices.putSettings({
+      index,
+      body: { index: { refresh_interval: null } }
+    });
+    await this.client.indices.refresh({ index });
+  }
+
+  // Concrete indices behind the alias
+  async getAliasedIndices(): Promise<string[]> {
+    try {
+      const response = await this.client.indices.getAlias({ name: this.indexName });
+      return Object.keys(response);
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async getIndexInfo(): Promise<{ alias: string; version: number; indices: string[]; upToDate: boolean }> {
+    const indices = await this.getAliasedIndices();
+    return {
+      alias: this.indexName,
+      version: EMAIL_INDEX_VERSION,
+      indices,
+      upToDate: indices.length > 0 && indices.every(index => this.getIndexVersion(index) === EMAIL_INDEX_VERSION)
+    };
+  }
+
+  /**
+   * Point the alias at `index` in one atomic update. A pre-alias index with
+   * the alias' name is dropped in the same update. Returns the indices the
+   * alias pointed to before.
+   */
+  async swapAlias(index: string): Promise<string[]> {
+    const previous = (await this.getAliasedIndices()).filter(name => name !== index);
+    const actions: any[] = previous.map(name => ({ remove: { index: name, alias: this.indexName } }));
+
+    if (previous.length === 0 && await this.client.indices.exists({ index: this.indexName })) {
+      actions.push({ remove_index: { index: this.indexName } });
+    }
+    actions.push({ add: { index, alias: this.indexName, is_write_index: true } });
+
+    await this.client.indices.updateAliases({ body: { actions } });
+    logger.info(`Elasticsearch alias '${this.indexName}' now points to '${index}'`);
+    return previous;
+  }
+
+  async deleteIndex(index: string): Promise<void> {
+    await this.client.indices.delete({ index });
+    logger.info(`Elasticsearch index '${index}' deleted`);
+  }
+
+  private getIndexVersion(index: string): number | null {
+    const match = index.match(/_v(\d+)_\d+$/);
+    return match ? Number(match[1]) : null;
+  }
+
   async indexEmail(email: EmailDocument): Promise<void> {
     try {
       await this.client.index({
@@ -142,14 +276,18 @@ export class ElasticsearchService {
     }
   }
 
-  async bulkIndexEmails(emails: EmailDocument[]): Promise<void> {
+  async bulkIndexEmails(emails: EmailDocument[], index: string = this.indexName): Promise<void> {
     try {
       const body = emails.flatMap(email => [
-        { index: { _index: this.indexName, _id: email.id } },
+        { index: { _index: index, _id: email.id } },
         email
       ]);
 
-      await this.client.bulk({ body });
+      const response: any = await this.client.bulk({ body });
+      if (response.errors) {
+        const failed = response.items.filter((item: any) => item.index?.error);
+        throw new Error(`${failed.length} of ${emails.length} emails failed to index: ${failed[0].index.error.reason}`);
+      }
       logger.info(`Bulk indexed ${emails.length} emails`);
     } catch (error) {
       logger.error('Failed to bulk index emails:', error);
@@ -170,6 +308,19 @@ export class ElasticsearchService {
     }
   }
 
+  async countEmails(query: any): Promise<number> {
+    try {
+      const response = await this.client.count({
+        index: this.indexName,
+        body: { query }
+      });
+      return response.count;
+    } catch (error) {
+      logger.error('Failed to count emails:', error);
+      throw error;
+    }
+  }
+
   async searchByText(searchText: string, filters: any = {}): Promise<any> {
     const query: any = {
       query: {
@@ -178,7 +329,7 @@ export class ElasticsearchService {
             {
               multi_match: {
                 query: searchText,
-                fields: ['subject^2', 'bodyText', 'fromName', 'fromEmail'],
+                fields: ['subject^2', 'bodyText', 'attachmentText', 'fromName', 'fromEmail'],
                 type: 'best_fields',
                 fuzziness: 'AUTO'
               }
@@ -207,6 +358,20 @@ export class ElasticsearchService {
       });
     }
 
+    if (filters.folderRole) {
+      query.query.bool.filter = query.query.bool.filter || [];
+      query.query.bool.filter.push({
+        term: { folderRole: filters.folderRole }
+      });
+    }
+
+    if (filters.label) {
+      query.query.bool.filter = query.query.bool.filter || [];
+      query.query.bool.filter.push({
+        term: { labels: filters.label }
+      });
+    }
+
     if (filters.aiCategory) {
       query.query.bool.filter = query.query.bool.filter || [];
       query.query.bool.filter.push({
@@ -271,12 +436,92 @@ export class ElasticsearchService {
         id: id
       });
       logger.debug(`Email deleted: ${id}`);
-    } catch (error) {
+    } catch (error: any) {
+      // Already gone is what a delete wants
+      if (error.statusCode === 404) {
+        return;
+      }
       logger.error('Failed to delete email:', error);
       throw error;
     }
   }
 
+  /**
+   * Walk every document, or those matching `search`, with a scroll, handing
+   * each page to the handler. Only the requested source fields are loaded.
+   */
+  async scanEmails(
+    handler: (hits: Array<{ id: string; source: any }>) => Promise<void>,
+    sourceFields: string[] = [],
+    pageSize: number = 1000,
+    search: { query?: any; sort?: any[] } = {}
+  ): Promise<void> {
+    let response: any = await this.client.search({
+      index: this.indexName,
+      scroll: '2m',
+      size: pageSize,
+      _source: sourceFields.length > 0 ? sourceFields : false,
+      body: { query: search.query || { match_all: {} }, sort: search.sort || ['_doc'] }
+    });
+
+    try {
+      while (response.hits.hits.length > 0) {
+        await handler(response.hits.hits.map((hit: any) => ({ id: hit._id, source: hit._source || {} })));
+        response = await this.client.scroll({ scroll_id: response._scroll_id, scroll: '2m' });
+      }
+    } finally {
+      if (response._scroll_id) {
+        await this.client.clearScroll({ scroll_id: response._scroll_id }).catch(() => undefined);
+      }
+    }
+  }
+
+  // Documents with only `sourceFields`; ids without a document are left out
+  async getEmailsByIds(ids: string[], sourceFields: string[] = []): Promise<Array<{ id: string; source: any }>> {
+    if (ids.length === 0) return [];
+
+    const response: any = await this.client.mget({
+      index: this.indexName,
+      _source: sourceFields.length > 0 ? sourceFields : false,
+      body: { ids }
+    });
+    return response.docs.filter((doc: any) => doc.found).map((doc: any) => ({ id: doc._id, source: doc._source || {} }));
+  }
+
+  /**
+   * Copy documents to new ids and delete the old ones. A move whose target
+   * already exists only deletes the old document.
+   */
+  async rekeyEmails(moves: Array<{ oldId: string; newId: string }>): Promise<void> {
+    if (moves.length === 0) return;
+
+    const existing: any = await this.client.mget({
+      index: this.indexName,
+      body: { ids: moves.map(move => move.oldId) }
+    });
+    const sources = new Map<string, any>(
+      existing.docs.filter((doc: any) => doc.found).map((doc: any) => [doc._id, doc._source])
+    );
+
+    const body = moves.flatMap(move => {
+      const source = sources.get(move.oldId);
+      const create = source
+        ? [{ create: { _index: this.indexName, _id: move.newId } }, { ...source, id: move.newId }]
+        : [];
+      return [...create, { delete: { _index: this.indexName, _id: move.oldId } }];
+    });
+
+    const result: any = await this.client.bulk({ body, refresh: true });
+    const failures = result.items.filter((item: any) => {
+      const outcome = item.create || item.delete;
+      // 409: the new id is already indexed, 404: the old one is already gone
+      return outcome.error && outcome.status !== 409 && outcome.status !== 404;
+    });
+    if (failures.length > 0) {
+      throw new Error(`Failed to re-key ${failures.length} Elasticsearch documents: ${JSON.stringify(failures[0])}`);
+    }
+  }
+
   async getStats(): Promise<any> {
     try {
       const response = await this.client.search({
@@ -319,7 +564,8 @@ export class ElasticsearchService {
   }
 
   async close(): Promise<void> {
-    // Elasticsearch client doesn't have a close method
+    // Release keep-alive sockets so one-off scripts can exit
+    await this.client.close();
     this.isConnectedFlag = false;
     logger.info('Elasticsearch connection closed');
   }
@@ -2,14 +2,27 @@ import Imap from 'imap';
 import { simpleParser, ParsedMail } from 'mailparser';
 import { EventEmitter } from 'events';
 import { Server as SocketIOServer } from 'socket.io';
-import { ElasticsearchService, EmailDocument } from './ElasticsearchService';
+import { ElasticsearchService, EmailDocument, EmailAttachment } from './ElasticsearchService';
 import { AIService, EmailCategorization } from './AIService';
 import { SlackService } from './SlackService';
 import { WebhookService } from './WebhookService';
 import { VectorDBService } from './VectorDBService';
 import { DatabaseService } from './DatabaseService';
+import { OAuthService, OAuthProvider, OAuthTokens } from './OAuthService';
+import { BlobStore } from './BlobStore';
+import { ThreadingService } from './ThreadingService';
+import { OutboxService, Queryable } from './OutboxService';
+import { ImapConnectionManager, ConnectionStatus, FolderWatchMode, isAuthenticationError } from './ImapConnectionManager';
+import { MailSource, MailAccountType, ImapMailSource } from './MailSource';
+import { Pop3MailSource, POP3_INBOX } from './Pop3MailSource';
 import { logger } from '../utils/logger';
-import { v4 as uuidv4 } from 'uuid';
+import { FolderRole, resolveFolderRole, isSelectable } from '../utils/folderRoles';
+import { GmailAttributes, readGmailAttributes, resolveLabelRole } from '../utils/gmail';
+import { encryptSecret, decryptSecret, isEncryptedSecret } from '../utils/credentials';
+import { ConnectionErrorType, classifyConnectionError, probeCapabilities } from '../utils/imapProbe';
+import { extractAttachmentText } from '../utils/attachmentText';
+import { parseMessageIds } from '../utils/threading';
+import { computeEmailId, resolveMessageId } from '../utils/emailIdentity';
 
 export interface IMAPAccount {
   id: number;
@@ -18,23 +31,203 @@ export interface IMAPAccount {
   port: number;
   secure: boolean;
   username: string;
-  password: string;
+  password: string | null;
   folders: string[];
   isActive: boolean;
+  authType: AuthType;
+  oauthProvider?: OAuthProvider | null;
+  refreshToken?: string | null;
+  accessToken?: string | null;
+  accessTokenExpiresAt?: Date | null;
+  // Defaults to 'imap'; POP3 accounts only have INBOX and use password auth
+  accountType?: MailAccountType;
+  // POP3: keep retrieved messages on the server instead of deleting them
+  leaveOnServer?: boolean;
+  // Path of [Gmail]/All Mail once the server offered X-GM-EXT-1; synced in place of `folders`
+  gmailAllMail?: string | null;
+  smtp?: SmtpSettings | null;
 }
 
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  // Default to the account's username and password, or its OAuth2 token
+  username?: string | null;
+  password?: string | null;
+  // From address; defaults to the username
+  from?: string | null;
+}
+
+export type AuthType = 'password' | 'oauth2';
+
+// Account settings that can be changed while the account is running
+export interface AccountUpdate {
+  name?: string;
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  folders?: string[];
+  leaveOnServer?: boolean;
+  // Replaces the whole SMTP configuration; null removes it
+  smtp?: SmtpSettings | null;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  // Step that failed: reaching the server, logging in or listing folders
+  stage?: 'connect' | 'login' | 'list';
+  error?: { type: ConnectionErrorType; message: string; code?: string };
+  capabilities: { idle: boolean; condstore: boolean; move: boolean; xoauth2: boolean };
+  rawCapabilities: string[];
+  folders: MailFolder[];
+  durationMs: number;
+}
+
+export interface FolderSyncState {
+  uidValidity: number;
+  lastUid: number;
+  // CONDSTORE MODSEQ, kept as a string since it can exceed Number.MAX_SAFE_INTEGER
+  highestModseq: string | null;
+  lastSyncAt: Date | null;
+}
+
+interface FetchResult {
+  highestUid: number;
+  // UIDs that were fetched but not parsed or stored, with the reason
+  failed: Map<number, string>;
+}
+
+interface ServerMessageState {
+  flags: string[];
+  modseq?: string;
+  // X-GM-LABELS on Gmail
+  labels?: string[];
+}
+
+export interface MailFolder {
+  path: string;
+  delimiter: string;
+  role: FolderRole;
+  attributes: string[];
+  isSelectable: boolean;
+}
+
+export interface AccountStatus {
+  accountId: number;
+  status: ConnectionStatus;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  lastConnectedAt: string | null;
+  lastSuccessfulSyncAt: string | null;
+  // Messages skipped after failing SYNC_MAX_MESSAGE_ATTEMPTS times
+  skippedMessages: {
+    folder: string;
+    uid: number;
+    attempts: number;
+    lastError: string | null;
+  }[];
+  folders: {
+    folder: string;
+    mode: FolderWatchMode;
+    connected: boolean;
+    lastSyncAt: string | null;
+  }[];
+}
+
+export type ImapOperationType = 'flags' | 'move' | 'delete';
+
+export interface ImapOperation {
+  accountId: number;
+  emailId: number | null;
+  folder: string;
+  uid: number;
+  uidValidity: number;
+  type: ImapOperationType;
+  // flags: { add?: string[]; remove?: string[] }, move: { destination: string }
+  payload: Record<string, any>;
+}
+
+export type BackfillStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface BackfillRequest {
+  folders: string[];
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface BackfillJob {
+  id: number;
+  accountId: number;
+  folders: string[];
+  dateFrom: string | null;
+  dateTo: string | null;
+  status: BackfillStatus;
+  completedFolders: string[];
+  currentFolder: string | null;
+  checkpointUid: number;
+  checkpointUidValidity: number | null;
+  totalMessages: number;
+  processedMessages: number;
+  // Messages skipped after failing SYNC_MAX_MESSAGE_ATTEMPTS times
+  failedMessages: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Refresh OAuth2 access tokens this long before they expire
+const ACCESS_TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Server change events arriving within this window share one reconcile
+const CHANGE_RECONCILE_DELAY_MS = 2000;
+
+interface ChangeReconcile {
+  imap: Imap;
+  box: Imap.Box;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  // Another event arrived while the reconcile was running
+  pending: boolean;
+}
+
+const ACCOUNT_COLUMNS = `id, name, host, port, secure, username, password, folders, is_active,
+  auth_type, oauth_provider, refresh_token, access_token, access_token_expires_at, account_type, leave_on_server,
+  smtp_host, smtp_port, smtp_secure, smtp_username, smtp_password, smtp_from`;
+
+const toSmtpColumns = (smtp: SmtpSettings | null): [string, any][] => [
+  ['smtp_host', smtp?.host ?? null],
+  ['smtp_port', smtp?.port ?? null],
+  ['smtp_secure', smtp?.secure ?? null],
+  ['smtp_username', smtp?.username || null],
+  ['smtp_password', encryptSecret(smtp?.password)],
+  ['smtp_from', smtp?.from || null]
+];
+
 export class EmailSyncService extends EventEmitter {
   private elasticsearchService: ElasticsearchService;
   private aiService: AIService;
   private slackService: SlackService;
   private webhookService: WebhookService;
   private vectorDBService: VectorDBService;
+  private oauthService: OAuthService;
+  private blobStore: BlobStore;
+  private threadingService: ThreadingService;
+  private outboxService: OutboxService;
   private databaseService!: DatabaseService;
   private io: SocketIOServer;
   private accounts: Map<number, IMAPAccount> = new Map();
-  private connections: Map<number, Imap> = new Map();
+  private connectionManager: ImapConnectionManager;
+  private pop3Source: Pop3MailSource;
+  private mailSources: Record<MailAccountType, MailSource>;
   private isRunning: boolean = false;
   private syncInterval: NodeJS.Timeout | null = null;
+  private folderSyncs: Map<string, Promise<void>> = new Map();
+  private changeReconciles: Map<string, ChangeReconcile> = new Map();
+  private operationRuns: Map<number, Promise<void>> = new Map();
+  private folderRoles: Map<number, Map<string, FolderRole>> = new Map();
 
   constructor(
     elasticsearchService: ElasticsearchService,
@@ -42,6 +235,10 @@ export class EmailSyncService extends EventEmitter {
     slackService: SlackService,
     webhookService: WebhookService,
     vectorDBService: VectorDBService,
+    oauthService: OAuthService,
+    blobStore: BlobStore,
+    threadingService: ThreadingService,
+    outboxService: OutboxService,
     io: SocketIOServer
   ) {
     super();
@@ -50,8 +247,50 @@ export class EmailSyncService extends EventEmitter {
     this.slackService = slackService;
     this.webhookService = webhookService;
     this.vectorDBService = vectorDBService;
+    this.oauthService = oauthService;
+    this.blobStore = blobStore;
+    this.threadingService = threadingService;
+    this.outboxService = outboxService;
     this.io = io;
     this.databaseService = new DatabaseService();
+    this.connectionManager = new ImapConnectionManager({
+      onControlReady: (accountId, imap) => this.handleControlReady(accountId, imap),
+      onFolderReady: (accountId, folder, imap, box) => this.syncFolder(accountId, imap, folder, box),
+      onMail: (accountId, folder, imap, box) => this.handleNewMail(accountId, imap, folder, box),
+      onChange: (accountId, folder, imap, box) => this.handleServerChange(accountId, imap, folder, box),
+      onPoll: (accountId, folders) => this.pollFolders(accountId, folders),
+      onStatusChange: (accountId, status, error) => {
+        this.handleStatusChange(accountId, status, error).catch((err) => {
+          logger.error(`Failed to record status for account ${accountId}:`, err);
+        });
+      },
+      beforeConnect: (account) => this.ensureAccessToken(account),
+      getWatchedFolders: (account) => this.getSyncFolders(account)
+    });
+    this.pop3Source = new Pop3MailSource(this.databaseService, {
+      onMessage: (account, raw) => this.ingestRawMessage(raw, account, POP3_INBOX.path, [], { notify: true }),
+      onStatusChange: (accountId, status, error) => {
+        this.handleStatusChange(accountId, status, error).catch((err) => {
+          logger.error(`Failed to record status for account ${accountId}:`, err);
+        });
+      },
+      onSynced: (accountId) => this.recordSuccessfulSync(accountId)
+    });
+    this.mailSources = {
+      imap: new ImapMailSource(this.connectionManager, (account) => this.syncAccount(account.id, account)),
+      pop3: this.pop3Source
+    };
+  }
+
+  private getMailSource(account: IMAPAccount): MailSource {
+    return this.mailSources[account.accountType || 'imap'];
+  }
+
+  // The account's type may have changed, so every source lets go of it
+  private unwatchAccount(accountId: number): void {
+    for (const source of Object.values(this.mailSources)) {
+      source.unwatch(accountId);
+    }
   }
 
   async startSync(): Promise<void> {
@@ -61,10 +300,10 @@ export class EmailSyncService extends EventEmitter {
       // Load accounts from database
       await this.loadAccounts();
       
-      // Start IDLE connections for each account
-      for (const [accountId, account] of this.accounts) {
+      // Start IDLE connections or POP3 polling for each account
+      for (const account of this.accounts.values()) {
         if (account.isActive) {
-          await this.startIDLEConnection(accountId, account);
+          this.getMailSource(account).watch(account);
         }
       }
 
@@ -72,6 +311,14 @@ export class EmailSyncService extends EventEmitter {
       this.startPeriodicSync();
       
       this.isRunning = true;
+
+      // Pick up backfills interrupted by the last shutdown
+      await this.resumeBackfills();
+
+      // Emails stored before threading, or whose threading failed, still need a conversation
+      this.threadingService.threadUnassignedEmails().catch((error) => {
+        logger.error('Failed to thread existing emails:', error);
+      });
       logger.info('Email synchronization started successfully');
       
     } catch (error) {
@@ -91,18 +338,16 @@ export class EmailSyncService extends EventEmitter {
         clearInterval(this.syncInterval);
         this.syncInterval = null;
       }
-      
-      // Close all IMAP connections
-      for (const [accountId, connection] of this.connections) {
-        try {
-          connection.end();
-          logger.info(`Closed IMAP connection for account ${accountId}`);
-        } catch (error) {
-          logger.error(`Error closing connection for account ${accountId}:`, error);
-        }
+
+      for (const reconcile of this.changeReconciles.values()) {
+        if (reconcile.timer) clearTimeout(reconcile.timer);
       }
+      this.changeReconciles.clear();
       
-      this.connections.clear();
+      // Close all IMAP connections and stop POP3 polling
+      for (const source of Object.values(this.mailSources)) {
+        source.stopAll();
+      }
       logger.info('Email synchronization stopped');
       
     } catch (error) {
@@ -113,24 +358,35 @@ export class EmailSyncService extends EventEmitter {
   private async loadAccounts(): Promise<void> {
     try {
       const result = await this.databaseService.query(`
-        SELECT id, name, host, port, secure, username, password, folders, is_active
+        SELECT ${ACCOUNT_COLUMNS}
         FROM email_accounts
-        WHERE is_active = true
+        WHERE is_active = true AND account_type IN ('imap', 'pop3')
       `);
 
+      const plaintext = result.rows.filter((row: any) =>
+        [row.password, row.refresh_token, row.access_token, row.smtp_password].some(value => value && !isEncryptedSecret(value))
+      );
+      if (plaintext.length > 0) {
+        logger.warn(`${plaintext.length} accounts have unencrypted credentials, run \`npm run credentials:reencrypt\``);
+      }
+
       this.accounts.clear();
       for (const row of result.rows) {
-        this.accounts.set(row.id, {
-          id: row.id,
-          name: row.name,
-          host: row.host,
-          port: row.port,
-          secure: row.secure,
-          username: row.username,
-          password: row.password,
-          folders: row.folders,
-          isActive: row.is_active
-        });
+        try {
+          this.accounts.set(row.id, this.mapAccountRow(row));
+        } catch (error: any) {
+          // Only the message: the error must never carry the credential itself
+          logger.error(`Failed to decrypt credentials for account ${row.name}: ${error.message}`);
+        }
+      }
+
+      const folders = await this.databaseService.query('SELECT account_id, path, role FROM email_folders');
+      this.folderRoles.clear();
+      for (const row of folders.rows) {
+        if (!this.folderRoles.has(row.account_id)) {
+          this.folderRoles.set(row.account_id, new Map());
+        }
+        this.folderRoles.get(row.account_id)!.set(row.path, row.role);
       }
 
       logger.info(`Loaded ${this.accounts.size} active email accounts`);
@@ -140,174 +396,674 @@ export class EmailSyncService extends EventEmitter {
     }
   }
 
-  private async startIDLEConnection(accountId: number, account: IMAPAccount): Promise<void> {
-    try {
-      const imap = new Imap({
-        user: account.username,
-        password: account.password,
-        host: account.host,
-        port: account.port,
-        tls: account.secure,
-        tlsOptions: { rejectUnauthorized: false },
-        connTimeout: 60000,
-        authTimeout: 30000,
-        keepalive: {
-          interval: 10000,
-          idleInterval: 300000,
-          forceNoop: true
-        }
-      });
+  private async loadAccount(accountId: number): Promise<IMAPAccount | null> {
+    const result = await this.databaseService.query(`
+      SELECT ${ACCOUNT_COLUMNS} FROM email_accounts WHERE id = $1 AND account_type IN ('imap', 'pop3')
+    `, [accountId]);
 
-      imap.once('ready', () => {
-        logger.info(`IMAP connection ready for account: ${account.name}`);
-        this.connections.set(accountId, imap);
-        this.startIDLE(accountId, imap, account);
-      });
+    return result.rows.length > 0 ? this.mapAccountRow(result.rows[0]) : null;
+  }
 
-      imap.once('error', (err: any) => {
-        logger.error(`IMAP error for account ${account.name}:`, err);
-        this.connections.delete(accountId);
-        // Attempt to reconnect after delay
-        setTimeout(() => {
-          if (this.isRunning) {
-            this.startIDLEConnection(accountId, account);
-          }
-        }, 30000);
-      });
+  // Credentials are stored encrypted and only decrypted into the in-memory account
+  private mapAccountRow(row: any): IMAPAccount {
+    return {
+      id: row.id,
+      name: row.name,
+      host: row.host,
+      port: row.port,
+      secure: row.secure,
+      username: row.username,
+      password: decryptSecret(row.password),
+      folders: row.folders,
+      isActive: row.is_active,
+      authType: row.auth_type,
+      oauthProvider: row.oauth_provider,
+      refreshToken: decryptSecret(row.refresh_token),
+      accessToken: decryptSecret(row.access_token),
+      accessTokenExpiresAt: row.access_token_expires_at,
+      accountType: row.account_type,
+      leaveOnServer: row.leave_on_server,
+      smtp: row.smtp_host ? {
+        host: row.smtp_host,
+        port: row.smtp_port,
+        secure: row.smtp_secure,
+        username: row.smtp_username,
+        password: decryptSecret(row.smtp_password),
+        from: row.smtp_from
+      } : null
+    };
+  }
 
-      imap.once('end', () => {
-        logger.info(`IMAP connection ended for account: ${account.name}`);
-        this.connections.delete(accountId);
-      });
+  /**
+   * Refresh an OAuth2 account's access token when it is missing or about to
+   * expire. The refreshed token is persisted so restarts don't need a new one.
+   */
+  private async ensureAccessToken(account: IMAPAccount): Promise<void> {
+    if (account.authType !== 'oauth2') return;
 
-      imap.connect();
-      
-    } catch (error) {
-      logger.error(`Failed to start IDLE connection for account ${account.name}:`, error);
+    const expiresAt = account.accessTokenExpiresAt ? new Date(account.accessTokenExpiresAt).getTime() : 0;
+    if (account.accessToken && expiresAt - Date.now() > ACCESS_TOKEN_REFRESH_MARGIN_MS) {
+      return;
+    }
+
+    if (!account.oauthProvider || !account.refreshToken) {
+      const error: any = new Error(`Account ${account.name} has no OAuth2 refresh token`);
+      error.source = 'authentication';
+      throw error;
+    }
+
+    const tokens = await this.oauthService.refreshAccessToken(account.oauthProvider, account.refreshToken);
+    await this.saveOAuthTokens(account, tokens);
+    logger.info(`Refreshed OAuth2 access token for account ${account.name}`);
+  }
+
+  private async saveOAuthTokens(account: IMAPAccount, tokens: OAuthTokens): Promise<void> {
+    account.accessToken = tokens.accessToken;
+    account.accessTokenExpiresAt = tokens.expiresAt;
+    account.refreshToken = tokens.refreshToken || account.refreshToken;
+
+    await this.databaseService.query(`
+      UPDATE email_accounts
+      SET access_token = $1, access_token_expires_at = $2, refresh_token = $3, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $4
+    `, [encryptSecret(account.accessToken), account.accessTokenExpiresAt, encryptSecret(account.refreshToken), account.id]);
+  }
+
+  /**
+   * Store tokens from a completed re-authorization and start watching the
+   * account again, which also clears an auth_failed status.
+   */
+  async reauthorizeAccount(accountId: number, provider: OAuthProvider, tokens: OAuthTokens): Promise<void> {
+    const result = await this.databaseService.query(`
+      UPDATE email_accounts
+      SET auth_type = 'oauth2', oauth_provider = $1, refresh_token = COALESCE($2, refresh_token),
+          access_token = $3, access_token_expires_at = $4, is_active = true, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $5
+      RETURNING ${ACCOUNT_COLUMNS}
+    `, [provider, encryptSecret(tokens.refreshToken), encryptSecret(tokens.accessToken), tokens.expiresAt, accountId]);
+
+    if (result.rows.length === 0) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+
+    const account = this.mapAccountRow(result.rows[0]);
+    this.accounts.set(accountId, account);
+
+    if (this.isRunning) {
+      this.getMailSource(account).watch(account);
     }
+    logger.info(`Re-authorized OAuth2 account: ${account.name}`);
+  }
+
+  private connectImap(account: IMAPAccount): Promise<Imap> {
+    return this.connectionManager.connect(account);
   }
 
-  private startIDLE(accountId: number, imap: Imap, account: IMAPAccount): void {
-    const processFolder = (folderName: string) => {
-      imap.openBox(folderName, true, (err, box) => {
+  private openBox(imap: Imap, folderName: string, readOnly: boolean = true): Promise<Imap.Box> {
+    return new Promise((resolve, reject) => {
+      imap.openBox(folderName, readOnly, (err, box) => {
         if (err) {
-          logger.error(`Error opening folder ${folderName}:`, err);
+          reject(err);
           return;
         }
+        resolve(box);
+      });
+    });
+  }
+
+  private async handleControlReady(accountId: number, imap: Imap): Promise<void> {
+    // Refresh the mailbox list so emails are tagged with current roles
+    try {
+      await this.discoverFolders(accountId, imap);
+    } catch (error) {
+      logger.error(`Folder discovery failed for account ${accountId}:`, error);
+    }
 
-        // Get recent emails (last 30 days)
-        const since = new Date();
-        since.setDate(since.getDate() - 30);
+    const account = this.accounts.get(accountId);
+    if (account) {
+      this.detectGmail(account, imap);
+    }
 
-        const searchCriteria = ['SINCE', since];
-        imap.search(searchCriteria, (err, results) => {
-          if (err) {
-            logger.error(`Error searching folder ${folderName}:`, err);
-            return;
-          }
+    this.processPendingOperations(accountId).catch((error) => {
+      logger.error(`Error writing back pending operations for account ${accountId}:`, error);
+    });
+  }
 
-          if (results && results.length > 0) {
-            this.fetchEmails(accountId, imap, folderName, results.slice(-50)); // Limit to last 50 emails
-          }
-        });
+  /**
+   * Gmail shows a message in one folder per label, so syncing folders stores
+   * it once per label. With X-GM-EXT-1, [Gmail]/All Mail is synced instead:
+   * every message appears there once, with its labels and thread id.
+   */
+  private detectGmail(account: IMAPAccount, imap: Imap): void {
+    const allMail = imap.serverSupports('X-GM-EXT-1') ? this.getFolderPathByRole(account.id, 'all') : null;
+    if (allMail && allMail !== account.gmailAllMail) {
+      logger.info(`Account ${account.name} is a Gmail account, syncing ${allMail} with labels`);
+    }
+    account.gmailAllMail = allMail;
+  }
 
-        // Start IDLE for real-time updates
-        (imap as any).idle((err: any) => {
-          if (err) {
-            logger.error(`IDLE error for folder ${folderName}:`, err);
-            return;
-          }
-        });
+  // All Mail leaves out Spam and Trash, so those stay synced when they are configured
+  private getSyncFolders(account: IMAPAccount): string[] {
+    if (!account.gmailAllMail) {
+      return account.folders;
+    }
 
-        imap.on('mail', () => {
-          logger.info(`New mail detected in ${folderName} for account ${account.name}`);
-          this.handleNewMail(accountId, imap, folderName);
-        });
-      });
+    const excluded = account.folders.filter((folder) => {
+      const role = this.getFolderRole(account.id, folder);
+      return (role === 'junk' || role === 'trash') && folder !== account.gmailAllMail;
+    });
+    return [account.gmailAllMail, ...excluded];
+  }
+
+  // In [Gmail]/All Mail, the labels tell whether a message is in the inbox, sent or archived
+  private resolveEmailRole(accountId: number, folderName: string, labels?: string[]): FolderRole {
+    const role = this.getFolderRole(accountId, folderName);
+    return role === 'all' && labels ? resolveLabelRole(labels) : role;
+  }
+
+  private async handleStatusChange(accountId: number, status: ConnectionStatus, error?: string): Promise<void> {
+    if (status === 'auth_failed') {
+      // Stop hammering the server until the credentials are fixed
+      await this.databaseService.query(`
+        UPDATE email_accounts SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1
+      `, [accountId]);
+      const account = this.accounts.get(accountId);
+      if (account) {
+        account.isActive = false;
+      }
+      logger.warn(`Disabled account ${accountId} after authentication failure`);
+    }
+
+    await this.databaseService.query(`
+      INSERT INTO account_status (account_id, status, last_error, last_error_at, last_connected_at, updated_at)
+      VALUES ($1, $2, $3, CASE WHEN $3::text IS NOT NULL THEN CURRENT_TIMESTAMP END,
+              CASE WHEN $2 = 'connected' THEN CURRENT_TIMESTAMP END, CURRENT_TIMESTAMP)
+      ON CONFLICT (account_id) DO UPDATE SET
+        status = $2,
+        last_error = COALESCE($3, account_status.last_error),
+        last_error_at = CASE WHEN $3::text IS NOT NULL THEN CURRENT_TIMESTAMP ELSE account_status.last_error_at END,
+        last_connected_at = CASE WHEN $2 = 'connected' THEN CURRENT_TIMESTAMP ELSE account_status.last_connected_at END,
+        updated_at = CURRENT_TIMESTAMP
+    `, [accountId, status, error || null]);
+
+    this.io.emit('accountStatus', await this.getAccountStatus(accountId));
+  }
+
+  private async recordSuccessfulSync(accountId: number): Promise<void> {
+    await this.databaseService.query(`
+      UPDATE account_status
+      SET last_successful_sync_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE account_id = $1
+    `, [accountId]);
+  }
+
+  async getAccountStatus(accountId: number): Promise<AccountStatus | null> {
+    const result = await this.databaseService.query(`
+      SELECT ea.id, ea.is_active, ea.account_type, s.status, s.last_error, s.last_error_at,
+             s.last_connected_at, s.last_successful_sync_at
+      FROM email_accounts ea
+      LEFT JOIN account_status s ON s.account_id = ea.id
+      WHERE ea.id = $1
+    `, [accountId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    const syncState = await this.databaseService.query(`
+      SELECT folder, last_sync_at FROM folder_sync_state WHERE account_id = $1
+    `, [accountId]);
+    const lastSyncByFolder = new Map<string, string>(
+      syncState.rows.map((state: any) => [state.folder, state.last_sync_at])
+    );
+
+    // Failures under an older UIDVALIDITY no longer refer to the same messages
+    const skipped = await this.databaseService.query(`
+      SELECT fm.folder, fm.uid, fm.attempts, fm.last_error
+      FROM failed_messages fm
+      JOIN folder_sync_state fs
+        ON fs.account_id = fm.account_id AND fs.folder = fm.folder AND fs.uid_validity = fm.uid_validity
+      WHERE fm.account_id = $1 AND fm.attempts >= $2
+      ORDER BY fm.folder, fm.uid
+    `, [accountId, parseInt(process.env.SYNC_MAX_MESSAGE_ATTEMPTS || '5')]);
+
+    // An inactive account is disabled unless it was switched off by an auth failure
+    let status: ConnectionStatus = row.status || 'reconnecting';
+    if (!row.is_active && status !== 'auth_failed') {
+      status = 'disabled';
+    }
+
+    // A POP3 mailbox is polled as a whole
+    const folders = row.account_type === 'pop3'
+      ? (row.is_active ? [{
+        folder: POP3_INBOX.path,
+        mode: 'poll' as FolderWatchMode,
+        connected: this.pop3Source.isConnected(accountId),
+        lastSyncAt: row.last_successful_sync_at
+      }] : [])
+      : this.connectionManager.getWatches(accountId).map(watch => ({
+        folder: watch.folder,
+        mode: watch.mode,
+        connected: watch.mode === 'idle' ? !!watch.imap : this.connectionManager.isConnected(accountId),
+        lastSyncAt: lastSyncByFolder.get(watch.folder) || null
+      }));
+
+    return {
+      accountId,
+      status,
+      lastError: row.last_error,
+      lastErrorAt: row.last_error_at,
+      lastConnectedAt: row.last_connected_at,
+      lastSuccessfulSyncAt: row.last_successful_sync_at,
+      skippedMessages: skipped.rows.map((message: any) => ({
+        folder: message.folder,
+        uid: Number(message.uid),
+        attempts: message.attempts,
+        lastError: message.last_error
+      })),
+      folders
     };
+  }
 
-    // Process each folder
-    account.folders.forEach(folderName => {
-      processFolder(folderName);
+  private handleNewMail(accountId: number, imap: Imap, folderName: string, box: Imap.Box): void {
+    this.syncFolder(accountId, imap, folderName, box).catch((error) => {
+      logger.error('Error handling new mail:', error);
     });
   }
 
-  private async handleNewMail(accountId: number, imap: Imap, folderName: string): Promise<void> {
-    try {
-      // Stop IDLE to perform search
-      (imap as any).idle.stop();
-      
-      // Search for unseen emails
-      imap.search(['UNSEEN'], async (err, results) => {
-        if (err) {
-          logger.error('Error searching for new mail:', err);
-          return;
+  /**
+   * Flag changes and expunges arrive as sequence numbers, so reconcile the
+   * folder. Without CONDSTORE that fetches the flags of the whole folder, so
+   * a burst of events is coalesced: one reconcile runs shortly after the
+   * first event, and events during a running reconcile queue one more.
+   */
+  private handleServerChange(accountId: number, imap: Imap, folderName: string, box: Imap.Box): void {
+    const key = `${accountId}:${folderName}`;
+    const existing = this.changeReconciles.get(key);
+    if (existing) {
+      existing.imap = imap;
+      existing.box = box;
+      if (existing.running) {
+        existing.pending = true;
+      }
+      return;
+    }
+
+    const reconcile: ChangeReconcile = { imap, box, timer: null, running: false, pending: false };
+    this.changeReconciles.set(key, reconcile);
+    this.scheduleChangeReconcile(key, accountId, folderName, reconcile);
+  }
+
+  private scheduleChangeReconcile(key: string, accountId: number, folderName: string, reconcile: ChangeReconcile): void {
+    reconcile.timer = setTimeout(() => {
+      reconcile.timer = null;
+      reconcile.running = true;
+      this.reconcileFolder(accountId, reconcile.imap, folderName, reconcile.box).catch((error) => {
+        logger.error(`Error reconciling ${folderName} after server change:`, error);
+      }).finally(() => {
+        reconcile.running = false;
+        if (reconcile.pending && this.changeReconciles.get(key) === reconcile) {
+          reconcile.pending = false;
+          this.scheduleChangeReconcile(key, accountId, folderName, reconcile);
+        } else if (this.changeReconciles.get(key) === reconcile) {
+          this.changeReconciles.delete(key);
         }
+      });
+    }, CHANGE_RECONCILE_DELAY_MS);
+  }
+
+  private async pollFolders(accountId: number, folders: string[]): Promise<void> {
+    for (const folderName of folders) {
+      try {
+        await this.connectionManager.withControl(accountId, async (imap) => {
+          const box = await this.openBox(imap, folderName);
+          await this.syncFolder(accountId, imap, folderName, box);
+          await this.reconcileFolder(accountId, imap, folderName, box);
+        });
+      } catch (error) {
+        logger.error(`Error polling folder ${folderName} for account ${accountId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Fetch every message in the open mailbox with a UID above the stored
+   * high-water mark. A missing state or a changed UIDVALIDITY invalidates
+   * all known UIDs, so the folder is resynced from the initial window.
+   */
+  private syncFolder(accountId: number, imap: Imap, folderName: string, box: Imap.Box): Promise<void> {
+    return this.withFolderLock(accountId, folderName, async () => {
+      const uidValidity = Number(box.uidvalidity);
+      const state = await this.getFolderSyncState(accountId, folderName);
+      const isIncremental = !!state && state.uidValidity === uidValidity;
+
+      if (state && !isIncremental) {
+        logger.warn(`UIDVALIDITY changed for ${folderName} on account ${accountId}, performing full resync`);
+      }
+
+      const lastUid = isIncremental ? state!.lastUid : 0;
+      const criteria = isIncremental
+        ? [['UID', `${lastUid + 1}:*`]]
+        : [['SINCE', this.getInitialSyncDate()]];
 
-        if (results && results.length > 0) {
-          await this.fetchEmails(accountId, imap, folderName, results);
+      const uids = await this.searchUids(imap, criteria);
+      // "N:*" always matches the highest message, even when its UID is below N
+      const newUids = uids.filter(uid => uid > lastUid).sort((a, b) => a - b);
+
+      const maxPerSync = parseInt(process.env.MAX_EMAILS_PER_SYNC || '1000');
+      const batchSize = parseInt(process.env.EMAIL_BATCH_SIZE || '50');
+      const pending = newUids.slice(0, maxPerSync);
+      let highestUid = lastUid;
+      let failedUid: number | null = null;
+
+      // Checkpoint after every batch so a crash only refetches the current one.
+      // Once a message fails the checkpoint stays below it, so the next sync
+      // fetches it again; later messages are still stored meanwhile. A message
+      // that keeps failing is skipped after SYNC_MAX_MESSAGE_ATTEMPTS.
+      for (let i = 0; i < pending.length; i += batchSize) {
+        const batch = pending.slice(i, i + batchSize);
+        const result = await this.fetchEmails(accountId, imap, folderName, batch, uidValidity);
+        const retry = await this.recordFailedMessages(accountId, folderName, uidValidity, batch, result.failed);
+        if (failedUid === null && retry.length > 0) {
+          failedUid = Math.min(...retry);
+          highestUid = Math.max(highestUid, failedUid - 1);
+        } else if (failedUid === null) {
+          highestUid = Math.max(highestUid, result.highestUid);
         }
+        await this.saveFolderSyncState(accountId, folderName, { uidValidity, lastUid: highestUid });
+      }
 
-        // Resume IDLE
-        (imap as any).idle((err: any) => {
-          if (err) {
-            logger.error('Error resuming IDLE:', err);
-          }
+      await this.recordSuccessfulSync(accountId);
+
+      if (failedUid !== null) {
+        logger.warn(`Email UID ${failedUid} in ${folderName} for account ${accountId} was not stored, retrying it on the next sync`);
+      } else if (pending.length < newUids.length) {
+        logger.info(`Deferred ${newUids.length - pending.length} emails in ${folderName} to the next sync`);
+      } else {
+        // Messages arriving after SELECT get UIDs >= uidnext, so uidnext - 1 is safe to skip to
+        await this.saveFolderSyncState(accountId, folderName, {
+          uidValidity,
+          lastUid: Math.max(highestUid, (box.uidnext || 1) - 1)
         });
+      }
+    });
+  }
+
+  /**
+   * Count a failed attempt for each UID in `failed` and forget earlier
+   * failures of the rest of the batch. Returns the failed UIDs that are
+   * still retried; the others have used up SYNC_MAX_MESSAGE_ATTEMPTS and
+   * stay recorded as skipped.
+   */
+  private async recordFailedMessages(
+    accountId: number,
+    folderName: string,
+    uidValidity: number,
+    batch: number[],
+    failed: Map<number, string>
+  ): Promise<number[]> {
+    const maxAttempts = parseInt(process.env.SYNC_MAX_MESSAGE_ATTEMPTS || '5');
+
+    const stored = batch.filter(uid => !failed.has(uid));
+    if (stored.length > 0) {
+      await this.databaseService.query(`
+        DELETE FROM failed_messages WHERE account_id = $1 AND folder = $2 AND uid_validity = $3 AND uid = ANY($4)
+      `, [accountId, folderName, uidValidity, stored]);
+    }
+
+    const retry: number[] = [];
+    for (const [uid, error] of failed) {
+      const result = await this.databaseService.query(`
+        INSERT INTO failed_messages (account_id, folder, uid_validity, uid, attempts, last_error)
+        VALUES ($1, $2, $3, $4, 1, $5)
+        ON CONFLICT (account_id, folder, uid_validity, uid)
+        DO UPDATE SET attempts = failed_messages.attempts + 1, last_error = EXCLUDED.last_error, updated_at = CURRENT_TIMESTAMP
+        RETURNING attempts
+      `, [accountId, folderName, uidValidity, uid, error]);
+
+      const attempts = result.rows[0].attempts;
+      if (attempts < maxAttempts) {
+        retry.push(uid);
+      } else if (attempts === maxAttempts) {
+        logger.error(`Skipping UID ${uid} in ${folderName} for account ${accountId} after ${attempts} failed attempts: ${error}`);
+      }
+    }
+    return retry;
+  }
+
+  /**
+   * Serialize work per folder so overlapping IDLE events and periodic syncs
+   * don't fetch or reconcile the same messages twice.
+   */
+  private withFolderLock(accountId: number, folderName: string, task: () => Promise<void>): Promise<void> {
+    const key = `${accountId}:${folderName}`;
+    const previous = this.folderSyncs.get(key) || Promise.resolve();
+    const next = previous.then(task);
+
+    const tracked = next.catch(() => undefined).finally(() => {
+      if (this.folderSyncs.get(key) === tracked) {
+        this.folderSyncs.delete(key);
+      }
+    });
+    this.folderSyncs.set(key, tracked);
+
+    return next;
+  }
+
+  private searchUids(imap: Imap, criteria: any[]): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      imap.search(criteria, (err, results) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(results || []);
       });
-    } catch (error) {
-      logger.error('Error handling new mail:', error);
+    });
+  }
+
+  private getInitialSyncDate(): Date {
+    const since = new Date();
+    since.setDate(since.getDate() - parseInt(process.env.INITIAL_SYNC_DAYS || '30'));
+    return since;
+  }
+
+  private async getFolderSyncState(accountId: number, folderName: string): Promise<FolderSyncState | null> {
+    const result = await this.databaseService.query(`
+      SELECT uid_validity, last_uid, highest_modseq, last_sync_at
+      FROM folder_sync_state
+      WHERE account_id = $1 AND folder = $2
+    `, [accountId, folderName]);
+
+    if (result.rows.length === 0) {
+      return null;
     }
+
+    const row = result.rows[0];
+    return {
+      uidValidity: Number(row.uid_validity),
+      lastUid: Number(row.last_uid),
+      highestModseq: row.highest_modseq,
+      lastSyncAt: row.last_sync_at
+    };
+  }
+
+  private async saveFolderSyncState(
+    accountId: number,
+    folderName: string,
+    state: Pick<FolderSyncState, 'uidValidity' | 'lastUid'>
+  ): Promise<void> {
+    // A new UIDVALIDITY invalidates the stored MODSEQ along with the UIDs
+    await this.databaseService.query(`
+      INSERT INTO folder_sync_state (account_id, folder, uid_validity, last_uid, last_sync_at)
+      VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+      ON CONFLICT (account_id, folder) DO UPDATE SET
+        highest_modseq = CASE WHEN folder_sync_state.uid_validity = $3 THEN folder_sync_state.highest_modseq END,
+        uid_validity = $3,
+        last_uid = $4,
+        last_sync_at = CURRENT_TIMESTAMP
+    `, [accountId, folderName, state.uidValidity, state.lastUid]);
+  }
+
+  private async saveHighestModseq(accountId: number, folderName: string, uidValidity: number, modseq: string): Promise<void> {
+    await this.databaseService.query(`
+      UPDATE folder_sync_state
+      SET highest_modseq = GREATEST(COALESCE(highest_modseq, 0), $4::bigint)
+      WHERE account_id = $1 AND folder = $2 AND uid_validity = $3
+    `, [accountId, folderName, uidValidity, modseq]);
   }
 
-  private async fetchEmails(accountId: number, imap: Imap, folderName: string, uids: number[]): Promise<void> {
-    if (uids.length === 0) return;
+  /**
+   * Fetch and process the given UIDs. Resolves once every message has been
+   * parsed and processed with the highest UID fetched and the lowest UID
+   * that could not be parsed or stored.
+   */
+  private fetchEmails(
+    accountId: number,
+    imap: Imap,
+    folderName: string,
+    uids: number[],
+    uidValidity: number
+  ): Promise<FetchResult> {
+    return new Promise((resolve, reject) => {
+      if (uids.length === 0) {
+        resolve({ highestUid: 0, failed: new Map() });
+        return;
+      }
+
+      const fetch = imap.fetch(uids, { bodies: '', struct: true });
+      const parsing: Promise<{ uid: number; email: EmailDocument | null; error?: string }>[] = [];
+      let highestUid = 0;
 
-    const fetch = imap.fetch(uids, { bodies: '', struct: true });
-    const emails: EmailDocument[] = [];
+      fetch.on('message', (msg) => {
+        // Keep raw bytes: decoding here would corrupt non-UTF-8 and binary parts
+        const chunks: Buffer[] = [];
+        let uid = 0;
+        let flags: string[] = [];
+        let gmail: GmailAttributes | null = null;
 
-    fetch.on('message', (msg) => {
-      let buffer = '';
+        msg.on('body', (stream) => {
+          stream.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+          });
+        });
 
-      msg.on('body', (stream) => {
-        stream.on('data', (chunk) => {
-          buffer += chunk.toString('utf8');
+        msg.once('attributes', (attrs) => {
+          uid = attrs.uid;
+          flags = attrs.flags || [];
+          gmail = readGmailAttributes(attrs);
+          highestUid = Math.max(highestUid, attrs.uid);
         });
+
+        parsing.push(new Promise((resolveMessage) => {
+          msg.once('end', async () => {
+            try {
+              const raw = Buffer.concat(chunks);
+              // cid: links are kept and served from the attachment route instead of inlined as data: URIs
+              const parsed = await simpleParser(raw, { keepCidLinks: true });
+              const account = this.accounts.get(accountId);
+              const emailDoc = account ? await this.parseEmail(parsed, account, folderName) : null;
+              if (emailDoc) {
+                emailDoc.rawBlobId = await this.storeRawMessage(raw);
+                emailDoc.size = raw.length;
+                emailDoc.uid = uid;
+                emailDoc.uidValidity = uidValidity;
+                emailDoc.flags = flags;
+                emailDoc.isRead = flags.includes('\\Seen');
+                emailDoc.isImportant = flags.includes('\\Flagged');
+                if (gmail) {
+                  emailDoc.labels = gmail.labels;
+                  emailDoc.gmailMessageId = gmail.messageId;
+                  emailDoc.gmailThreadId = gmail.threadId;
+                  emailDoc.folderRole = this.resolveEmailRole(accountId, folderName, gmail.labels);
+                }
+              }
+              resolveMessage({ uid, email: emailDoc, error: emailDoc ? undefined : 'Message could not be parsed' });
+            } catch (error: any) {
+              logger.error('Error parsing email:', error);
+              resolveMessage({ uid, email: null, error: error?.message || String(error) });
+            }
+          });
+        }));
       });
 
-      msg.once('end', async () => {
-        try {
-          const parsed = await simpleParser(buffer);
-          const emailDoc = await this.parseEmail(parsed, accountId, folderName);
-          if (emailDoc) {
-            emails.push(emailDoc);
-          }
-        } catch (error) {
-          logger.error('Error parsing email:', error);
+      fetch.once('end', async () => {
+        const messages = await Promise.all(parsing);
+        const failed = new Map<number, string>(
+          messages.filter(message => !message.email).map(message => [message.uid, message.error || 'Message could not be parsed'])
+        );
+        const emails = messages.filter(message => !!message.email);
+        if (emails.length > 0) {
+          const errors = await this.processEmails(emails.map(message => message.email!));
+          emails.forEach((message) => {
+            const error = errors.get(message.email!);
+            if (error !== undefined) failed.set(message.uid, error);
+          });
+          logger.info(`Processed ${emails.length - errors.size} emails from ${folderName}`);
         }
+        resolve({ highestUid, failed });
+      });
+
+      fetch.once('error', (err) => {
+        logger.error('Error fetching emails:', err);
+        reject(err);
       });
     });
+  }
+
+  // A failed write only loses the ability to reprocess, so the email is still indexed
+  private async storeRawMessage(raw: Buffer): Promise<string | undefined> {
+    try {
+      return await this.blobStore.put(raw);
+    } catch (error) {
+      logger.error('Failed to store raw message:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Persist attachment bytes to the blob store and extract searchable text.
+   * The blob id doubles as the SHA-256 checksum; attachment ids are positions
+   * in the message so they stay stable when it is parsed again.
+   */
+  private async storeAttachments(parsed: ParsedMail): Promise<{ attachments: EmailAttachment[]; attachmentText: string }> {
+    const attachments: EmailAttachment[] = [];
+    const texts: string[] = [];
 
-    fetch.once('end', async () => {
-      if (emails.length > 0) {
-        await this.processEmails(emails);
-        logger.info(`Processed ${emails.length} emails from ${folderName}`);
+    for (const [index, att] of (parsed.attachments || []).entries()) {
+      const filename = att.filename || 'unknown';
+      let blobId: string | null = null;
+      try {
+        blobId = await this.blobStore.put(att.content);
+      } catch (error) {
+        logger.error(`Failed to store attachment ${filename}:`, error);
       }
-    });
 
-    fetch.once('error', (err) => {
-      logger.error('Error fetching emails:', err);
-    });
+      attachments.push({
+        id: String(index),
+        filename,
+        contentType: att.contentType,
+        size: att.size,
+        cid: att.cid,
+        inline: att.contentDisposition === 'inline' || !!att.related,
+        blobId,
+        checksum: blobId
+      });
+
+      const text = await extractAttachmentText(att.content, att.contentType, filename);
+      if (text) {
+        texts.push(text);
+      }
+    }
+
+    return { attachments, attachmentText: texts.join('\n\n') };
   }
 
-  private async parseEmail(parsed: ParsedMail, accountId: number, folderName: string): Promise<EmailDocument | null> {
+  private async parseEmail(parsed: ParsedMail, account: { id: number; name: string }, folderName: string): Promise<EmailDocument | null> {
     try {
-      const account = this.accounts.get(accountId);
-      if (!account) return null;
+      const accountId = account.id;
 
-      const emailId = uuidv4();
-      const messageId = parsed.messageId || emailId;
-      
       // Extract email addresses
       const fromEmail = (parsed.from as any)?.value?.[0]?.address || '';
       const fromName = (parsed.from as any)?.value?.[0]?.name || '';
@@ -315,13 +1071,18 @@ export class EmailSyncService extends EventEmitter {
       const ccEmails = (parsed.cc as any)?.value?.map((addr: any) => addr.address) || [];
       const bccEmails = (parsed.bcc as any)?.value?.map((addr: any) => addr.address) || [];
 
-      // Extract attachments
-      const attachments = parsed.attachments?.map((att: any) => ({
-        filename: att.filename || 'unknown',
-        contentType: att.contentType,
-        size: att.size,
-        cid: att.cid
-      })) || [];
+      // The same message in several folders resolves to the same id
+      const messageId = resolveMessageId(parsed.messageId, {
+        fromEmail,
+        toEmails,
+        date: parsed.date?.toISOString() || '',
+        subject: parsed.subject || '',
+        bodyText: parsed.text || ''
+      });
+      const emailId = computeEmailId(accountId, messageId);
+
+      const { attachments, attachmentText } = await this.storeAttachments(parsed);
+      const inReplyTo = parseMessageIds(parsed.inReplyTo)[0];
 
       const emailDoc: EmailDocument = {
         id: emailId,
@@ -329,6 +1090,9 @@ export class EmailSyncService extends EventEmitter {
         accountId: accountId,
         accountName: account.name,
         folder: folderName,
+        folderRole: this.getFolderRole(accountId, folderName),
+        inReplyTo: inReplyTo,
+        references: parseMessageIds(parsed.references),
         subject: parsed.subject || '',
         fromEmail: fromEmail,
         fromName: fromName,
@@ -338,10 +1102,11 @@ export class EmailSyncService extends EventEmitter {
         date: parsed.date?.toISOString() || new Date().toISOString(),
         receivedDate: (parsed as any).receivedDate?.toISOString() || new Date().toISOString(),
         size: parsed.text?.length || 0,
-        flags: (parsed as any).flags || [],
+        flags: [],
         bodyText: parsed.text || '',
         bodyHtml: parsed.html || '',
         attachments: attachments,
+        attachmentText: attachmentText,
         aiCategory: 'Not Interested', // Will be updated by AI
         aiConfidence: 0.5,
         isRead: false,
@@ -357,79 +1122,225 @@ export class EmailSyncService extends EventEmitter {
     }
   }
 
-  private async processEmails(emails: EmailDocument[]): Promise<void> {
-    try {
-      for (const email of emails) {
-        // Check if email already exists
-        const existing = await this.elasticsearchService.getEmailById(email.id);
-        if (existing) continue;
-
-        // AI categorization
-        const categorization = await this.aiService.categorizeEmail(
-          email.subject,
-          email.bodyText,
-          email.fromEmail
-        );
-
-        email.aiCategory = categorization.category;
-        email.aiConfidence = categorization.confidence;
+  // Resolves with the emails that failed and why, so the sync checkpoint can stay below them
+  private async processEmails(emails: EmailDocument[]): Promise<Map<EmailDocument, string>> {
+    const failed = new Map<EmailDocument, string>();
+    for (const email of emails) {
+      try {
+        await this.processEmail(email);
+      } catch (error: any) {
+        failed.set(email, error?.message || String(error));
+        logger.error(`Error processing email ${email.messageId}:`, error);
+      }
+    }
+    return failed;
+  }
 
-        // Store in database
-        await this.storeEmailInDatabase(email);
+  /**
+   * Categorize, thread and store one parsed email. Returns false when the
+   * account already had it. `notify` covers Slack, webhooks and the
+   * real-time event, which imported history should not trigger.
+   */
+  private async processEmail(email: EmailDocument, options: { notify?: boolean } = {}): Promise<boolean> {
+    const notify = options.notify ?? true;
 
-        // Index in Elasticsearch
-        await this.elasticsearchService.indexEmail(email);
+    // A copy in another folder only adds a location; it was already categorized and indexed
+    const existing = await this.databaseService.query('SELECT id FROM emails WHERE public_id = $1', [email.id]);
+    if (existing.rows.length > 0) {
+      await this.recordCopy(existing.rows[0].id, email);
+      return false;
+    }
 
-        // Store in vector database for RAG
-        await this.vectorDBService.storeEmail(email);
+    // AI categorization
+    const categorization = await this.aiService.categorizeEmail(
+      email.subject,
+      email.bodyText,
+      email.fromEmail
+    );
 
-        // Handle interested emails
-        if (categorization.category === 'Interested') {
-          await this.handleInterestedEmail(email);
-        }
+    email.aiCategory = categorization.category;
+    email.aiConfidence = categorization.confidence;
 
-        // Emit real-time update
-        this.io.emit('newEmail', {
-          id: email.id,
-          subject: email.subject,
-          fromEmail: email.fromEmail,
-          fromName: email.fromName,
-          aiCategory: email.aiCategory,
-          aiConfidence: email.aiConfidence,
-          date: email.date
-        });
-      }
+    // Attach to a conversation; unthreaded emails are picked up again on the next start
+    try {
+      email.threadId = await this.threadingService.assignThread(email);
     } catch (error) {
-      logger.error('Error processing emails:', error);
+      logger.error(`Failed to thread email ${email.messageId}:`, error);
+    }
+
+    // Store in database; the outbox indexes it in Elasticsearch and the vector database
+    await this.storeEmailInDatabase(email);
+
+    if (!notify) {
+      return true;
+    }
+
+    // Handle interested emails
+    if (categorization.category === 'Interested') {
+      await this.handleInterestedEmail(email);
     }
+
+    // Emit real-time update
+    this.io.emit('newEmail', {
+      id: email.id,
+      subject: email.subject,
+      fromEmail: email.fromEmail,
+      fromName: email.fromName,
+      aiCategory: email.aiCategory,
+      aiConfidence: email.aiConfidence,
+      threadId: email.threadId,
+      date: email.date
+    });
+    return true;
   }
 
-  private async storeEmailInDatabase(email: EmailDocument): Promise<void> {
-    try {
-      await this.databaseService.query(`
+  /**
+   * Run a message without an IMAP location, such as one read from an
+   * imported archive or retrieved over POP3, through the sync pipeline.
+   * Notifications are off unless asked for. Returns false when the account
+   * already had it.
+   */
+  async ingestRawMessage(
+    raw: Buffer,
+    account: { id: number; name: string },
+    folder: string,
+    flags: string[] = [],
+    options: { notify?: boolean } = {}
+  ): Promise<boolean> {
+    const parsed = await simpleParser(raw, { keepCidLinks: true });
+    const email = await this.parseEmail(parsed, account, folder);
+    if (!email) {
+      throw new Error('Message could not be parsed');
+    }
+
+    email.rawBlobId = await this.storeRawMessage(raw);
+    email.size = raw.length;
+    email.flags = flags;
+    email.isRead = flags.includes('\\Seen');
+    email.isImportant = flags.includes('\\Flagged');
+
+    return this.processEmail(email, { notify: options.notify ?? false });
+  }
+
+  private async storeEmailInDatabase(email: EmailDocument): Promise<void> {
+    await this.databaseService.transaction(async (client) => {
+      // A concurrent sync of another folder may have stored the same email first;
+      // the folder and UID it recorded stay the write-back location
+      const result = await client.query(`
         INSERT INTO emails (
           message_id, account_id, folder, subject, from_email, from_name,
           to_emails, cc_emails, bcc_emails, date, received_date, size,
           flags, body_text, body_html, attachments, ai_category, ai_confidence,
-          is_read, is_important, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
-        ON CONFLICT (message_id) DO UPDATE SET
+          is_read, is_important, created_at, updated_at, uid, uid_validity, folder_role, raw_blob_id, attachment_text,
+          thread_id, in_reply_to, reference_ids, public_id, labels, gmail_msgid, gmail_thread_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34)
+        ON CONFLICT (public_id) DO UPDATE SET
           updated_at = $22,
-          ai_category = $17,
-          ai_confidence = $18
+          flags = $13,
+          is_read = $19,
+          is_important = $20,
+          folder = CASE WHEN emails.uid IS NULL THEN $3 ELSE emails.folder END,
+          folder_role = CASE WHEN emails.uid IS NULL THEN $25 ELSE emails.folder_role END,
+          uid_validity = CASE WHEN emails.uid IS NULL THEN $24 ELSE emails.uid_validity END,
+          uid = COALESCE(emails.uid, $23),
+          raw_blob_id = COALESCE($26, emails.raw_blob_id),
+          attachments = $16,
+          attachment_text = COALESCE($27, emails.attachment_text),
+          thread_id = COALESCE(emails.thread_id, $28),
+          in_reply_to = COALESCE(emails.in_reply_to, $29),
+          reference_ids = COALESCE(emails.reference_ids, $30),
+          labels = COALESCE($32, emails.labels),
+          gmail_msgid = COALESCE(emails.gmail_msgid, $33),
+          gmail_thread_id = COALESCE(emails.gmail_thread_id, $34)
+        RETURNING id
       `, [
         email.messageId, email.accountId, email.folder, email.subject,
         email.fromEmail, email.fromName, email.toEmails, email.ccEmails,
         email.bccEmails, email.date, email.receivedDate, email.size,
         email.flags, email.bodyText, email.bodyHtml, JSON.stringify(email.attachments),
         email.aiCategory, email.aiConfidence, email.isRead, email.isImportant,
-        email.createdAt, email.updatedAt
+        email.createdAt, email.updatedAt, email.uid || null, email.uidValidity || null,
+        email.folderRole || null, email.rawBlobId || null, email.attachmentText || null,
+        email.threadId || null, email.inReplyTo || null, email.references || null, email.id,
+        email.labels || null, email.gmailMessageId || null, email.gmailThreadId || null
       ]);
+
+      await this.recordLocation(client, result.rows[0].id, email);
+      await this.outboxService.enqueue(client, email.id, 'index');
+    });
+
+    this.outboxService.dispatchSoon();
+  }
+
+  // Another folder holds an email that is already stored
+  private async recordCopy(emailId: number, email: EmailDocument): Promise<void> {
+    try {
+      // An email stored before its Gmail copy was seen moves into its Gmail conversation
+      const gmailThread = email.gmailThreadId
+        ? await this.threadingService.assignGmailThread(email.accountId, email.gmailThreadId, email.subject)
+        : null;
+
+      const changed = await this.databaseService.transaction(async (client) => {
+        const primary = await this.recordLocation(client, emailId, email);
+        const relabeled = gmailThread !== null && await this.recordGmailAttributes(client, emailId, email, gmailThread);
+        if (primary || relabeled) {
+          await this.outboxService.enqueue(client, email.id, 'index');
+        }
+        return primary || relabeled;
+      });
+
+      if (changed) {
+        this.outboxService.dispatchSoon();
+      }
     } catch (error) {
-      logger.error('Error storing email in database:', error);
+      logger.error(`Error recording location of email ${email.messageId}:`, error);
     }
   }
 
+  /**
+   * Remember that an email is stored in this folder. An email without a
+   * write-back location (moved locally, or whose folder was expunged) takes
+   * this one, in which case this returns true.
+   */
+  private async recordLocation(client: Queryable, emailId: number, email: EmailDocument): Promise<boolean> {
+    if (!email.uid || !email.uidValidity) {
+      return false;
+    }
+
+    await client.query(`
+      INSERT INTO email_locations (email_id, account_id, folder, folder_role, uid, uid_validity, flags)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (email_id, folder) DO UPDATE SET
+        folder_role = $4,
+        uid = $5,
+        uid_validity = $6,
+        flags = $7,
+        last_seen_at = CURRENT_TIMESTAMP
+    `, [emailId, email.accountId, email.folder, email.folderRole || null, email.uid, email.uidValidity, email.flags]);
+
+    const result = await client.query(`
+      UPDATE emails
+      SET folder = $2, folder_role = $3, uid = $4, uid_validity = $5, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND uid IS NULL
+    `, [emailId, email.folder, email.folderRole || null, email.uid, email.uidValidity]);
+
+    return result.rowCount > 0;
+  }
+
+  // Returns true when the stored labels, Gmail ids or conversation changed
+  private async recordGmailAttributes(client: Queryable, emailId: number, email: EmailDocument, threadId: number): Promise<boolean> {
+    const result = await client.query(`
+      UPDATE emails
+      SET labels = $2, gmail_msgid = $3, gmail_thread_id = $4, thread_id = $5,
+          folder_role = CASE WHEN folder = $6 THEN $7 ELSE folder_role END,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+        AND (labels IS DISTINCT FROM $2 OR gmail_thread_id IS DISTINCT FROM $4 OR thread_id IS DISTINCT FROM $5)
+    `, [emailId, email.labels || [], email.gmailMessageId, email.gmailThreadId, threadId, email.folder, email.folderRole || null]);
+
+    return result.rowCount > 0;
+  }
+
   private async handleInterestedEmail(email: EmailDocument): Promise<void> {
     try {
       // Send Slack notification
@@ -459,7 +1370,8 @@ export class EmailSyncService extends EventEmitter {
     for (const [accountId, account] of this.accounts) {
       if (account.isActive) {
         try {
-          await this.syncAccount(accountId, account);
+          await this.getMailSource(account).sync(account);
+          await this.processPendingOperations(accountId);
         } catch (error) {
           logger.error(`Error syncing account ${account.name}:`, error);
         }
@@ -467,31 +1379,787 @@ export class EmailSyncService extends EventEmitter {
     }
   }
 
+  /**
+   * Reconcile every configured folder against the server on a short-lived
+   * connection: fetch anything missed while IDLE was down, then pick up flag
+   * changes and expunges for the emails we already store.
+   */
   private async syncAccount(accountId: number, account: IMAPAccount): Promise<void> {
-    // This would implement a full sync for each account
-    // For now, we rely on IDLE connections for real-time updates
     logger.debug(`Syncing account: ${account.name}`);
+
+    let imap: Imap;
+    try {
+      imap = await this.connectImap(account);
+    } catch (error: any) {
+      if (isAuthenticationError(error)) {
+        this.connectionManager.unwatchAccount(accountId);
+        await this.handleStatusChange(accountId, 'auth_failed', error.message);
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      this.detectGmail(account, imap);
+
+      for (const folderName of this.getSyncFolders(account)) {
+        try {
+          const box = await this.openBox(imap, folderName);
+          await this.syncFolder(accountId, imap, folderName, box);
+          await this.reconcileFolder(accountId, imap, folderName, box);
+        } catch (error) {
+          logger.error(`Error reconciling folder ${folderName} for account ${account.name}:`, error);
+        }
+      }
+    } finally {
+      imap.end();
+    }
+  }
+
+  /**
+   * Bring stored flags and expunges in line with the server. With CONDSTORE
+   * only messages changed since the stored MODSEQ are fetched and expunges
+   * come from a UID SEARCH; otherwise every message's flags are diffed.
+   */
+  private reconcileFolder(accountId: number, imap: Imap, folderName: string, box: Imap.Box): Promise<void> {
+    return this.withFolderLock(accountId, folderName, async () => {
+      const uidValidity = Number(box.uidvalidity);
+      const state = await this.getFolderSyncState(accountId, folderName);
+      const useModseq = imap.serverSupports('CONDSTORE')
+        && !(box as any).nomodseq
+        && !!state?.highestModseq
+        && state.uidValidity === uidValidity;
+
+      let changed = new Map<number, ServerMessageState>();
+      let serverUids = new Set<number>();
+
+      if (box.messages.total > 0) {
+        if (useModseq) {
+          changed = await this.fetchMessageStates(imap, '1:*', { changedsince: state!.highestModseq });
+          serverUids = new Set(await this.searchUids(imap, ['ALL']));
+        } else {
+          changed = await this.fetchMessageStates(imap, '1:*');
+          serverUids = new Set(changed.keys());
+        }
+      }
+
+      // Locations stored under an older UIDVALIDITY are refreshed by the resync instead
+      const result = await this.databaseService.query(`
+        SELECT l.email_id AS id, e.public_id, e.message_id, l.uid, l.flags, e.labels
+        FROM email_locations l
+        JOIN emails e ON e.id = l.email_id
+        WHERE l.account_id = $1 AND l.folder = $2 AND l.uid_validity = $3
+      `, [accountId, folderName, uidValidity]);
+
+      let flagChanges = 0;
+      let expunged = 0;
+
+      for (const row of result.rows) {
+        const uid = Number(row.uid);
+        if (!serverUids.has(uid)) {
+          await this.removeExpungedLocation(row, folderName);
+          expunged++;
+          continue;
+        }
+
+        const serverState = changed.get(uid);
+        if (!serverState) continue;
+
+        // Gmail label changes are reported like flag changes
+        const labels = serverState.labels && !this.sameFlags(serverState.labels, row.labels || [])
+          ? { labels: serverState.labels, folderRole: this.resolveEmailRole(accountId, folderName, serverState.labels) }
+          : undefined;
+        if (!labels && this.sameFlags(serverState.flags, row.flags || [])) continue;
+
+        await this.applyFlagChange(row, folderName, serverState.flags, labels);
+        flagChanges++;
+      }
+
+      const highestModseq = [box.highestmodseq, ...Array.from(changed.values()).map(entry => entry.modseq)]
+        .filter((modseq): modseq is string => !!modseq)
+        .reduce<string | null>((max, modseq) => (max === null || BigInt(modseq) > BigInt(max) ? modseq : max), null);
+      if (highestModseq) {
+        await this.saveHighestModseq(accountId, folderName, uidValidity, highestModseq);
+      }
+
+      if (flagChanges > 0 || expunged > 0) {
+        logger.info(`Reconciled ${folderName} for account ${accountId}: ${flagChanges} flag changes, ${expunged} expunged`);
+      }
+    });
+  }
+
+  private async applyFlagChange(
+    row: any,
+    folderName: string,
+    flags: string[],
+    gmail?: { labels: string[]; folderRole: FolderRole }
+  ): Promise<void> {
+    const { id, public_id: publicId, message_id: messageId } = row;
+    const isRead = flags.includes('\\Seen');
+    const isImportant = flags.includes('\\Flagged');
+
+    await this.databaseService.transaction(async (client) => {
+      await client.query(`
+        UPDATE email_locations SET flags = $1 WHERE email_id = $2 AND folder = $3
+      `, [flags, id, folderName]);
+
+      await client.query(`
+        UPDATE emails
+        SET flags = $1, is_read = $2, is_important = $3, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $4
+      `, [flags, isRead, isImportant, id]);
+
+      if (gmail) {
+        await client.query(`
+          UPDATE email_locations SET folder_role = $1 WHERE email_id = $2 AND folder = $3
+        `, [gmail.folderRole, id, folderName]);
+
+        await client.query(`
+          UPDATE emails
+          SET labels = $1, folder_role = CASE WHEN folder = $3 THEN $2 ELSE folder_role END
+          WHERE id = $4
+        `, [gmail.labels, gmail.folderRole, folderName, id]);
+      }
+
+      await this.outboxService.enqueue(client, publicId, 'index');
+    });
+    this.outboxService.dispatchSoon();
+
+    this.io.emit('emailUpdated', { id: publicId, messageId, flags, isRead, isImportant, ...(gmail && { labels: gmail.labels }) });
+  }
+
+  /**
+   * Forget an expunged copy. The email is deleted only when no folder holds
+   * it any more; otherwise a remaining copy becomes the write-back location.
+   */
+  private async removeExpungedLocation(row: any, folderName: string): Promise<void> {
+    const { id, public_id: publicId, message_id: messageId } = row;
+
+    const remaining = await this.databaseService.transaction(async (client) => {
+      await client.query('DELETE FROM email_locations WHERE email_id = $1 AND folder = $2', [id, folderName]);
+      const locations = await client.query(`
+        SELECT folder, folder_role, uid, uid_validity FROM email_locations WHERE email_id = $1 ORDER BY last_seen_at DESC
+      `, [id]);
+
+      if (locations.rows.length > 0) {
+        const next = locations.rows[0];
+        await client.query(`
+          UPDATE emails
+          SET folder = $2, folder_role = $3, uid = $4, uid_validity = $5, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1 AND folder = $6
+        `, [id, next.folder, next.folder_role, next.uid, next.uid_validity, folderName]);
+      } else {
+        await client.query('DELETE FROM emails WHERE id = $1', [id]);
+      }
+      await this.outboxService.enqueue(client, publicId, locations.rows.length > 0 ? 'index' : 'delete');
+      return locations.rows.length;
+    });
+    this.outboxService.dispatchSoon();
+
+    if (remaining > 0) {
+      return;
+    }
+
+    this.io.emit('emailDeleted', { id: publicId, messageId });
+  }
+
+  private fetchMessageStates(
+    imap: Imap,
+    source: string | number[],
+    modifiers?: { changedsince: string }
+  ): Promise<Map<number, ServerMessageState>> {
+    return new Promise((resolve, reject) => {
+      const states = new Map<number, ServerMessageState>();
+      const fetch = imap.fetch(source, modifiers ? { modifiers } : {});
+
+      fetch.on('message', (msg) => {
+        msg.once('attributes', (attrs: any) => {
+          states.set(attrs.uid, {
+            flags: attrs.flags || [],
+            modseq: attrs.modseq,
+            labels: readGmailAttributes(attrs)?.labels
+          });
+        });
+      });
+
+      fetch.once('end', () => resolve(states));
+      fetch.once('error', reject);
+    });
+  }
+
+  private sameFlags(a: string[], b: string[]): boolean {
+    if (a.length !== b.length) return false;
+    const sorted = [...b].sort();
+    return [...a].sort().every((flag, index) => flag === sorted[index]);
+  }
+
+  /**
+   * LIST the server's mailboxes and store them with their canonical role.
+   * Mailboxes that disappeared from the server are dropped.
+   */
+  private async discoverFolders(accountId: number, imap: Imap): Promise<MailFolder[]> {
+    const folders = await this.listFolders(imap);
+
+    await this.databaseService.transaction(async (client) => {
+      await client.query(`
+        DELETE FROM email_folders
+        WHERE account_id = $1 AND NOT (path = ANY($2))
+      `, [accountId, folders.map(folder => folder.path)]);
+
+      for (const folder of folders) {
+        await client.query(`
+          INSERT INTO email_folders (account_id, path, delimiter, role, attributes, is_selectable, discovered_at)
+          VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+          ON CONFLICT (account_id, path) DO UPDATE SET
+            delimiter = $3,
+            role = $4,
+            attributes = $5,
+            is_selectable = $6,
+            discovered_at = CURRENT_TIMESTAMP
+        `, [accountId, folder.path, folder.delimiter, folder.role, folder.attributes, folder.isSelectable]);
+      }
+    });
+
+    this.folderRoles.set(accountId, new Map(folders.map(folder => [folder.path, folder.role])));
+    logger.info(`Discovered ${folders.length} folders for account ${accountId}`);
+
+    return folders;
+  }
+
+  private async listFolders(imap: Imap): Promise<MailFolder[]> {
+    const boxes = await new Promise<Imap.MailBoxes>((resolve, reject) => {
+      imap.getBoxes((err, result) => (err ? reject(err) : resolve(result)));
+    });
+    return this.flattenBoxes(boxes);
+  }
+
+  private flattenBoxes(boxes: Imap.MailBoxes, parentPath: string = '', parentDelimiter: string = ''): MailFolder[] {
+    const folders: MailFolder[] = [];
+
+    for (const [name, box] of Object.entries(boxes || {})) {
+      const path = parentPath ? `${parentPath}${parentDelimiter}${name}` : name;
+      const attributes = box.attribs || [];
+
+      folders.push({
+        path,
+        delimiter: box.delimiter,
+        role: resolveFolderRole(path, attributes, box.delimiter),
+        attributes,
+        isSelectable: isSelectable(attributes)
+      });
+
+      if (box.children) {
+        folders.push(...this.flattenBoxes(box.children, path, box.delimiter));
+      }
+    }
+
+    return folders;
+  }
+
+  getFolderRole(accountId: number, folderName: string): FolderRole {
+    return this.folderRoles.get(accountId)?.get(folderName) || resolveFolderRole(folderName);
+  }
+
+  getFolderPathByRole(accountId: number, role: FolderRole): string | null {
+    for (const [path, folderRole] of this.folderRoles.get(accountId) || new Map<string, FolderRole>()) {
+      if (folderRole === role) return path;
+    }
+    return null;
+  }
+
+  /**
+   * Folders known for an account. With refresh, or when nothing has been
+   * discovered yet, the server is LISTed on the live or a short-lived connection.
+   */
+  async getAccountFolders(accountId: number, refresh: boolean = false): Promise<MailFolder[]> {
+    const account = this.accounts.get(accountId);
+
+    // POP3 accounts only have the INBOX recorded when they were added
+    if (account && account.accountType !== 'pop3' && (refresh || !this.folderRoles.has(accountId))) {
+      if (this.connectionManager.isConnected(accountId)) {
+        return this.connectionManager.withControl(accountId, (imap) => this.discoverFolders(accountId, imap));
+      }
+
+      const imap = await this.connectImap(account);
+      try {
+        return await this.discoverFolders(accountId, imap);
+      } finally {
+        imap.end();
+      }
+    }
+
+    const result = await this.databaseService.query(`
+      SELECT path, delimiter, role, attributes, is_selectable
+      FROM email_folders
+      WHERE account_id = $1
+      ORDER BY path
+    `, [accountId]);
+
+    return result.rows.map((row: any) => ({
+      path: row.path,
+      delimiter: row.delimiter,
+      role: row.role,
+      attributes: row.attributes,
+      isSelectable: row.is_selectable
+    }));
+  }
+
+  /**
+   * Change which folders are synced and restart the account's connection
+   * so the new selection takes effect immediately.
+   */
+  async updateAccountFolders(accountId: number, folders: string[]): Promise<void> {
+    await this.databaseService.query(`
+      UPDATE email_accounts SET folders = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2
+    `, [folders, accountId]);
+
+    const account = this.accounts.get(accountId);
+    if (!account) return;
+
+    account.folders = folders;
+
+    if (this.isRunning && account.isActive) {
+      this.getMailSource(account).watch(account);
+    }
+  }
+
+  // A loaded account with a current OAuth2 access token, for sending mail as it
+  async getSendingAccount(accountId: number): Promise<IMAPAccount | null> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      return null;
+    }
+    await this.ensureAccessToken(account);
+    return account;
+  }
+
+  /**
+   * Store a message in one of the account's folders, e.g. a sent copy in
+   * Sent, on the live or a short-lived connection.
+   */
+  async appendMessage(accountId: number, folder: string, raw: Buffer, flags: string[] = []): Promise<void> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} is not loaded`);
+    }
+
+    const append = (imap: Imap) => this.imapCall(callback => imap.append(raw, { mailbox: folder, flags }, callback));
+
+    if (this.connectionManager.isConnected(accountId)) {
+      return this.connectionManager.withControl(accountId, append);
+    }
+
+    const imap = await this.connectImap(account);
+    try {
+      await append(imap);
+    } finally {
+      imap.end();
+    }
+  }
+
+  /**
+   * Queue a local action for write-back to the originating mailbox. It is
+   * applied right away when the account is connected and retried with
+   * backoff otherwise.
+   */
+  async queueImapOperation(operation: ImapOperation): Promise<void> {
+    await this.databaseService.query(`
+      INSERT INTO pending_imap_operations (account_id, email_id, folder, uid, uid_validity, operation, payload)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      operation.accountId, operation.emailId, operation.folder, operation.uid,
+      operation.uidValidity, operation.type, JSON.stringify(operation.payload)
+    ]);
+
+    this.processPendingOperations(operation.accountId).catch((error) => {
+      logger.error(`Error writing back operations for account ${operation.accountId}:`, error);
+    });
+  }
+
+  async processPendingOperations(accountId: number): Promise<void> {
+    const running = this.operationRuns.get(accountId);
+    if (running) return running;
+
+    const run = this.runPendingOperations(accountId).finally(() => {
+      this.operationRuns.delete(accountId);
+    });
+    this.operationRuns.set(accountId, run);
+    return run;
+  }
+
+  private async runPendingOperations(accountId: number): Promise<void> {
+    if (!this.connectionManager.isConnected(accountId)) return;
+
+    const maxAttempts = parseInt(process.env.IMAP_OPERATION_MAX_ATTEMPTS || '10');
+    const result = await this.databaseService.query(`
+      SELECT * FROM pending_imap_operations
+      WHERE account_id = $1 AND status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+      ORDER BY id
+    `, [accountId]);
+
+    for (const row of result.rows) {
+      try {
+        await this.connectionManager.withControl(accountId, (imap) =>
+          this.withFolderLock(accountId, row.folder, () => this.applyImapOperation(imap, row))
+        );
+        await this.databaseService.query('DELETE FROM pending_imap_operations WHERE id = $1', [row.id]);
+        logger.info(`Applied ${row.operation} for UID ${row.uid} in ${row.folder} on account ${accountId}`);
+      } catch (error: any) {
+        const attempts = row.attempts + 1;
+        const failed = error?.permanent || attempts >= maxAttempts;
+        // 1, 2, 4 ... minutes, capped at an hour
+        const delayMinutes = Math.min(Math.pow(2, attempts - 1), 60);
+
+        await this.databaseService.query(`
+          UPDATE pending_imap_operations
+          SET attempts = $1, last_error = $2, status = $3,
+              next_attempt_at = CURRENT_TIMESTAMP + ($4 || ' minutes')::interval
+          WHERE id = $5
+        `, [attempts, error?.message || String(error), failed ? 'failed' : 'pending', delayMinutes, row.id]);
+
+        logger.error(`Failed to apply ${row.operation} for UID ${row.uid} in ${row.folder} (attempt ${attempts}):`, error);
+      }
+    }
+  }
+
+  private async applyImapOperation(imap: Imap, row: any): Promise<void> {
+    const box = await this.openBox(imap, row.folder, false);
+
+    if (Number(box.uidvalidity) !== Number(row.uid_validity)) {
+      const error: any = new Error(`UIDVALIDITY of ${row.folder} changed, UID ${row.uid} is stale`);
+      error.permanent = true;
+      throw error;
+    }
+
+    const uid = Number(row.uid);
+    const payload = row.payload || {};
+
+    switch (row.operation as ImapOperationType) {
+      case 'flags':
+        if (payload.add?.length) {
+          await this.imapCall(cb => imap.addFlags(uid, payload.add, cb));
+        }
+        if (payload.remove?.length) {
+          await this.imapCall(cb => imap.delFlags(uid, payload.remove, cb));
+        }
+        break;
+      case 'move':
+        await this.imapCall(cb => imap.move(uid, payload.destination, cb));
+        break;
+      case 'delete':
+        await this.imapCall(cb => imap.addFlags(uid, '\\Deleted', cb));
+        // UID EXPUNGE needs UIDPLUS; a plain EXPUNGE also removes messages
+        // other clients already marked \Deleted, as their own expunge would
+        if (imap.serverSupports('UIDPLUS')) {
+          await this.imapCall(cb => imap.expunge(uid, cb));
+        } else {
+          await this.imapCall(cb => imap.expunge(cb));
+        }
+        break;
+      default: {
+        const error: any = new Error(`Unknown IMAP operation: ${row.operation}`);
+        error.permanent = true;
+        throw error;
+      }
+    }
+  }
+
+  private imapCall(call: (callback: (err: Error) => void) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      call((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async startBackfill(accountId: number, request: BackfillRequest): Promise<BackfillJob> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} is not loaded`);
+    }
+    // POP3 servers always hand over the whole mailbox, which every poll already retrieves
+    if (account.accountType === 'pop3') {
+      throw new Error('Backfills are only available for IMAP accounts');
+    }
+
+    const running = await this.databaseService.query(`
+      SELECT id FROM backfill_jobs
+      WHERE account_id = $1 AND status IN ('pending', 'running')
+    `, [accountId]);
+    if (running.rows.length > 0) {
+      throw new Error(`Backfill ${running.rows[0].id} is already in progress for account ${accountId}`);
+    }
+
+    const folders = request.folders && request.folders.length > 0 ? request.folders : this.getSyncFolders(account);
+    const result = await this.databaseService.query(`
+      INSERT INTO backfill_jobs (account_id, folders, date_from, date_to)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `, [accountId, folders, request.dateFrom || null, request.dateTo || null]);
+
+    const job = this.mapBackfillJob(result.rows[0]);
+    logger.info(`Queued backfill ${job.id} for account ${account.name}`);
+
+    this.runBackfill(job.id).catch((error) => {
+      logger.error(`Backfill ${job.id} crashed:`, error);
+    });
+
+    return job;
+  }
+
+  async getBackfillJobs(accountId: number): Promise<BackfillJob[]> {
+    const result = await this.databaseService.query(`
+      SELECT * FROM backfill_jobs
+      WHERE account_id = $1
+      ORDER BY created_at DESC
+      LIMIT 20
+    `, [accountId]);
+
+    return result.rows.map((row: any) => this.mapBackfillJob(row));
+  }
+
+  private async resumeBackfills(accountId?: number): Promise<void> {
+    // Jobs of paused accounts wait until the account is resumed
+    const result = await this.databaseService.query(`
+      SELECT b.id FROM backfill_jobs b
+      JOIN email_accounts ea ON ea.id = b.account_id
+      WHERE b.status IN ('pending', 'running') AND ea.is_active = true
+        AND ($1::int IS NULL OR b.account_id = $1)
+      ORDER BY b.id
+    `, [accountId || null]);
+
+    for (const row of result.rows) {
+      logger.info(`Resuming backfill ${row.id}`);
+      this.runBackfill(row.id).catch((error) => {
+        logger.error(`Backfill ${row.id} crashed:`, error);
+      });
+    }
+  }
+
+  /**
+   * Walk each requested folder oldest-first in EMAIL_BATCH_SIZE batches,
+   * checkpointing the highest processed UID after every batch. Stopping the
+   * service leaves the job 'running' so the next start resumes it.
+   */
+  private async runBackfill(jobId: number): Promise<void> {
+    let job = await this.getBackfillJob(jobId);
+    if (!job) return;
+
+    const account = this.accounts.get(job.accountId);
+    if (!account) {
+      await this.updateBackfillJob(job, { status: 'failed', error: 'Account is not active' });
+      return;
+    }
+
+    const batchSize = parseInt(process.env.EMAIL_BATCH_SIZE || '50');
+    let imap: Imap | null = null;
+
+    try {
+      imap = await this.connectImap(account);
+      job = await this.updateBackfillJob(job, { status: 'running', error: null });
+
+      // Count everything up front so progress has a stable denominator
+      const searches = new Map<string, { box: Imap.Box; uids: number[] }>();
+      for (const folderName of job.folders) {
+        if (job.completedFolders.includes(folderName)) continue;
+        const box = await this.openBox(imap, folderName);
+        const uids = await this.searchUids(imap, this.getBackfillCriteria(job));
+        searches.set(folderName, { box, uids: uids.sort((a, b) => a - b) });
+      }
+
+      if (job.totalMessages === 0) {
+        const total = Array.from(searches.values()).reduce((sum, search) => sum + search.uids.length, 0);
+        job = await this.updateBackfillJob(job, { totalMessages: total });
+      }
+
+      for (const [folderName, search] of searches) {
+        const box = await this.openBox(imap, folderName);
+        const uidValidity = Number(box.uidvalidity);
+
+        // A checkpoint only applies to the folder and UIDVALIDITY it was taken in
+        const resumeFrom = job.currentFolder === folderName && job.checkpointUidValidity === uidValidity
+          ? job.checkpointUid
+          : 0;
+        job = await this.updateBackfillJob(job, {
+          currentFolder: folderName,
+          checkpointUid: resumeFrom,
+          checkpointUidValidity: uidValidity
+        });
+
+        const pending = search.uids.filter(uid => uid > resumeFrom);
+        for (let i = 0; i < pending.length; i += batchSize) {
+          if (!this.isRunning || !this.accounts.has(job.accountId)) {
+            logger.info(`Backfill ${job.id} paused at ${folderName} UID ${job.checkpointUid}`);
+            return;
+          }
+
+          const batch = pending.slice(i, i + batchSize);
+          const skipped = await this.backfillBatch(job.accountId, imap, folderName, batch, uidValidity);
+          job = await this.updateBackfillJob(job, {
+            checkpointUid: batch[batch.length - 1],
+            processedMessages: job.processedMessages + batch.length,
+            failedMessages: job.failedMessages + skipped
+          });
+        }
+
+        job = await this.updateBackfillJob(job, {
+          completedFolders: [...job.completedFolders, folderName],
+          currentFolder: null,
+          checkpointUid: 0,
+          checkpointUidValidity: null
+        });
+      }
+
+      await this.updateBackfillJob(job, { status: 'completed' });
+      logger.info(`Backfill ${job.id} completed: ${job.processedMessages} emails, ${job.failedMessages} skipped`);
+    } catch (error: any) {
+      logger.error(`Backfill ${jobId} failed:`, error);
+      await this.updateBackfillJob(job, { status: 'failed', error: error?.message || String(error) });
+    } finally {
+      imap?.end();
+    }
+  }
+
+  /**
+   * Fetch one backfill batch under the folder lock so it cannot interleave
+   * with a live sync of the same folder. Failed messages are fetched again
+   * until they are stored or have used up SYNC_MAX_MESSAGE_ATTEMPTS, so the
+   * checkpoint can move past the batch. Returns the number skipped.
+   */
+  private async backfillBatch(
+    accountId: number,
+    imap: Imap,
+    folderName: string,
+    batch: number[],
+    uidValidity: number
+  ): Promise<number> {
+    let skipped = 0;
+    await this.withFolderLock(accountId, folderName, async () => {
+      let uids = batch;
+      while (uids.length > 0) {
+        const result = await this.fetchEmails(accountId, imap, folderName, uids, uidValidity);
+        const retry = await this.recordFailedMessages(accountId, folderName, uidValidity, uids, result.failed);
+        skipped += result.failed.size - retry.length;
+        uids = retry;
+      }
+    });
+    return skipped;
+  }
+
+  private getBackfillCriteria(job: BackfillJob): any[] {
+    const criteria: any[] = [];
+    if (job.dateFrom) {
+      criteria.push(['SINCE', new Date(job.dateFrom)]);
+    }
+    if (job.dateTo) {
+      // BEFORE is exclusive, so move one day past the inclusive end date
+      const before = new Date(job.dateTo);
+      before.setDate(before.getDate() + 1);
+      criteria.push(['BEFORE', before]);
+    }
+    return criteria.length > 0 ? criteria : ['ALL'];
+  }
+
+  private async getBackfillJob(jobId: number): Promise<BackfillJob | null> {
+    const result = await this.databaseService.query('SELECT * FROM backfill_jobs WHERE id = $1', [jobId]);
+    return result.rows.length > 0 ? this.mapBackfillJob(result.rows[0]) : null;
+  }
+
+  private async updateBackfillJob(job: BackfillJob, updates: Partial<BackfillJob>): Promise<BackfillJob> {
+    const next = { ...job, ...updates };
+
+    const result = await this.databaseService.query(`
+      UPDATE backfill_jobs SET
+        status = $1,
+        completed_folders = $2,
+        current_folder = $3,
+        checkpoint_uid = $4,
+        checkpoint_uid_validity = $5,
+        total_messages = $6,
+        processed_messages = $7,
+        failed_messages = $8,
+        error = $9,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $10
+      RETURNING *
+    `, [
+      next.status, next.completedFolders, next.currentFolder, next.checkpointUid,
+      next.checkpointUidValidity, next.totalMessages, next.processedMessages, next.failedMessages,
+      next.error, job.id
+    ]);
+
+    const updated = this.mapBackfillJob(result.rows[0]);
+
+    this.io.emit('backfillProgress', {
+      jobId: updated.id,
+      accountId: updated.accountId,
+      status: updated.status,
+      folder: updated.currentFolder,
+      processed: updated.processedMessages,
+      failed: updated.failedMessages,
+      total: updated.totalMessages,
+      error: updated.error
+    });
+
+    return updated;
+  }
+
+  private mapBackfillJob(row: any): BackfillJob {
+    return {
+      id: row.id,
+      accountId: row.account_id,
+      folders: row.folders,
+      dateFrom: row.date_from ? new Date(row.date_from).toISOString() : null,
+      dateTo: row.date_to ? new Date(row.date_to).toISOString() : null,
+      status: row.status,
+      completedFolders: row.completed_folders || [],
+      currentFolder: row.current_folder,
+      checkpointUid: Number(row.checkpoint_uid),
+      checkpointUidValidity: row.checkpoint_uid_validity !== null ? Number(row.checkpoint_uid_validity) : null,
+      totalMessages: row.total_messages,
+      processedMessages: row.processed_messages,
+      failedMessages: row.failed_messages,
+      error: row.error,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
   }
 
   async addAccount(accountData: Omit<IMAPAccount, 'id'>): Promise<number> {
     try {
+      const smtpColumns = toSmtpColumns(accountData.smtp || null);
       const result = await this.databaseService.query(`
-        INSERT INTO email_accounts (name, host, port, secure, username, password, folders, is_active)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        INSERT INTO email_accounts (
+          name, host, port, secure, username, password, folders, is_active,
+          auth_type, oauth_provider, refresh_token, access_token, access_token_expires_at,
+          account_type, leave_on_server, ${smtpColumns.map(([column]) => column).join(', ')}
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
         RETURNING id
       `, [
         accountData.name, accountData.host, accountData.port, accountData.secure,
-        accountData.username, accountData.password, accountData.folders, accountData.isActive
+        accountData.username, encryptSecret(accountData.password), accountData.folders, accountData.isActive,
+        accountData.authType, accountData.oauthProvider || null, encryptSecret(accountData.refreshToken),
+        encryptSecret(accountData.accessToken), accountData.accessTokenExpiresAt || null,
+        accountData.accountType || 'imap', accountData.leaveOnServer ?? true,
+        ...smtpColumns.map(([, value]) => value)
       ]);
 
       const accountId = result.rows[0].id;
+
+      // POP3 has no folders to discover, so its only one is recorded up front
+      if (accountData.accountType === 'pop3') {
+        await this.databaseService.query(`
+          INSERT INTO email_folders (account_id, path, delimiter, role, attributes, is_selectable, discovered_at)
+          VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+          ON CONFLICT (account_id, path) DO NOTHING
+        `, [accountId, POP3_INBOX.path, POP3_INBOX.delimiter, POP3_INBOX.role, POP3_INBOX.attributes, POP3_INBOX.isSelectable]);
+        this.folderRoles.set(accountId, new Map([[POP3_INBOX.path, POP3_INBOX.role]]));
+      }
       
-      // Add to in-memory accounts
-      this.accounts.set(accountId, { ...accountData, id: accountId });
-      
-      // Start IDLE connection if active
+      // Only active accounts are kept in memory, as in loadAccounts
       if (accountData.isActive) {
-        await this.startIDLEConnection(accountId, { ...accountData, id: accountId });
+        const account: IMAPAccount = { ...accountData, id: accountId };
+        this.accounts.set(accountId, account);
+        this.getMailSource(account).watch(account);
       }
 
       logger.info(`Added new email account: ${accountData.name}`);
@@ -501,4 +2169,214 @@ export class EmailSyncService extends EventEmitter {
       throw error;
     }
   }
+
+  /**
+   * Apply changed settings to a running account. Connections are reopened
+   * since host or credentials may have changed.
+   */
+  async updateAccount(accountId: number, changes: AccountUpdate): Promise<boolean> {
+    const columns: [string, any][] = [
+      ['name', changes.name],
+      ['host', changes.host],
+      ['port', changes.port],
+      ['secure', changes.secure],
+      ['username', changes.username],
+      ['password', changes.password === undefined ? undefined : encryptSecret(changes.password)],
+      ['folders', changes.folders],
+      ['leave_on_server', changes.leaveOnServer],
+      ...(changes.smtp === undefined ? [] : toSmtpColumns(changes.smtp))
+    ];
+    const updates = columns.filter(([, value]) => value !== undefined);
+
+    if (updates.length > 0) {
+      const assignments = updates.map(([column], index) => `${column} = $${index + 2}`).join(', ');
+      await this.databaseService.query(`
+        UPDATE email_accounts SET ${assignments}, updated_at = CURRENT_TIMESTAMP WHERE id = $1 AND account_type IN ('imap', 'pop3')
+      `, [accountId, ...updates.map(([, value]) => value)]);
+    }
+
+    const account = await this.loadAccount(accountId);
+    if (!account) {
+      return false;
+    }
+
+    if (account.isActive) {
+      this.accounts.set(accountId, account);
+      if (this.isRunning) {
+        this.getMailSource(account).watch(account);
+      }
+    }
+
+    logger.info(`Updated email account: ${account.name}`);
+    return true;
+  }
+
+  // Close the account's connections and keep it switched off across restarts
+  async pauseAccount(accountId: number): Promise<boolean> {
+    const result = await this.databaseService.query(`
+      UPDATE email_accounts SET is_active = false, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND account_type IN ('imap', 'pop3')
+      RETURNING name
+    `, [accountId]);
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    this.unwatchAccount(accountId);
+    this.accounts.delete(accountId);
+    await this.handleStatusChange(accountId, 'disabled');
+
+    logger.info(`Paused email account: ${result.rows[0].name}`);
+    return true;
+  }
+
+  // Also used to retry an account that was switched off by an authentication failure
+  async resumeAccount(accountId: number): Promise<boolean> {
+    await this.databaseService.query(`
+      UPDATE email_accounts SET is_active = true, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND account_type IN ('imap', 'pop3')
+    `, [accountId]);
+
+    const account = await this.loadAccount(accountId);
+    if (!account) {
+      return false;
+    }
+
+    this.accounts.set(accountId, account);
+    await this.handleStatusChange(accountId, 'reconnecting');
+
+    if (this.isRunning) {
+      this.getMailSource(account).watch(account);
+      await this.resumeBackfills(accountId);
+    }
+
+    logger.info(`Resumed email account: ${account.name}`);
+    return true;
+  }
+
+  /**
+   * Forget the stored UID checkpoints, MODSEQs and failed messages so every folder is synced
+   * again from the initial window and fully reconciled. Runs in the background.
+   */
+  async resyncAccount(accountId: number): Promise<void> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} is not active`);
+    }
+
+    await this.databaseService.query('DELETE FROM folder_sync_state WHERE account_id = $1', [accountId]);
+    await this.databaseService.query('DELETE FROM pop3_retrieved WHERE account_id = $1', [accountId]);
+    // Give skipped messages a fresh set of attempts
+    await this.databaseService.query('DELETE FROM failed_messages WHERE account_id = $1', [accountId]);
+    logger.info(`Resyncing email account: ${account.name}`);
+
+    this.getMailSource(account).sync(account).catch((error) => {
+      logger.error(`Resync of account ${account.name} failed:`, error);
+    });
+  }
+
+  /**
+   * Stop syncing and delete the account. Without purge its emails are kept
+   * but detached from the account; with purge they are removed from every store.
+   */
+  async removeAccount(accountId: number, purge: boolean = false): Promise<boolean> {
+    const result = await this.databaseService.query('SELECT name FROM email_accounts WHERE id = $1', [accountId]);
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    this.unwatchAccount(accountId);
+    this.accounts.delete(accountId);
+    this.folderRoles.delete(accountId);
+
+    await this.databaseService.transaction(async (client) => {
+      if (purge) {
+        // Removed from the search stores by id, like any other deleted email
+        const purged = await client.query('DELETE FROM emails WHERE account_id = $1 RETURNING public_id', [accountId]);
+        await this.outboxService.enqueue(client, purged.rows.map((row: any) => row.public_id), 'delete');
+      } else {
+        // Reindexed so account filters in the search stores stop matching them
+        const detached = await client.query(`
+          UPDATE emails SET account_id = NULL, uid = NULL, uid_validity = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE account_id = $1
+          RETURNING public_id
+        `, [accountId]);
+        await this.outboxService.enqueue(client, detached.rows.map((row: any) => row.public_id), 'index');
+      }
+      await client.query('DELETE FROM email_accounts WHERE id = $1', [accountId]);
+    });
+    this.outboxService.dispatchSoon();
+
+    logger.info(`Removed email account: ${result.rows[0].name}${purge ? ' and purged its emails' : ''}`);
+    return true;
+  }
+
+  /**
+   * Check account settings without saving them: reach the server, log in and
+   * list folders. Connecting and logging in are bounded by IMAP_TEST_TIMEOUT_SECONDS.
+   */
+  async testConnection(accountData: Omit<IMAPAccount, 'id'>): Promise<ConnectionTestResult> {
+    if (accountData.accountType === 'pop3') {
+      return this.pop3Source.testConnection({ ...accountData, id: 0 });
+    }
+
+    const timeoutMs = parseInt(process.env.IMAP_TEST_TIMEOUT_SECONDS || '10') * 1000;
+    const startedAt = Date.now();
+    const result: ConnectionTestResult = {
+      ok: false,
+      capabilities: { idle: false, condstore: false, move: false, xoauth2: false },
+      rawCapabilities: [],
+      folders: [],
+      durationMs: 0
+    };
+
+    const fail = (stage: ConnectionTestResult['stage'], error: any): ConnectionTestResult => {
+      result.stage = stage;
+      result.error = { type: classifyConnectionError(error), message: error?.message || String(error), code: error?.code };
+      result.durationMs = Date.now() - startedAt;
+      logger.info(`Connection test for ${accountData.host} failed at ${stage}: ${result.error.type}`);
+      return result;
+    };
+
+    try {
+      result.rawCapabilities = await probeCapabilities(accountData.host, accountData.port, accountData.secure, timeoutMs);
+    } catch (error) {
+      return fail('connect', error);
+    }
+
+    const account: IMAPAccount = { ...accountData, id: 0 };
+    let imap: Imap;
+    try {
+      if (account.authType === 'oauth2') {
+        // Fetched here so the connect hook doesn't try to persist tokens for an unsaved account
+        const tokens = await this.oauthService.refreshAccessToken(account.oauthProvider!, account.refreshToken!);
+        account.accessToken = tokens.accessToken;
+        account.accessTokenExpiresAt = tokens.expiresAt;
+      }
+      imap = await this.connectionManager.connect(account, timeoutMs);
+    } catch (error) {
+      return fail('login', error);
+    }
+
+    try {
+      const supports = (capability: string) =>
+        imap.serverSupports(capability) || result.rawCapabilities.some(raw => raw.toUpperCase() === capability);
+      result.capabilities = {
+        idle: supports('IDLE'),
+        condstore: supports('CONDSTORE'),
+        move: supports('MOVE'),
+        xoauth2: supports('AUTH=XOAUTH2')
+      };
+
+      result.folders = await this.listFolders(imap);
+    } catch (error) {
+      return fail('list', error);
+    } finally {
+      imap.end();
+    }
+
+    result.ok = true;
+    result.durationMs = Date.now() - startedAt;
+    return result;
+  }
 }
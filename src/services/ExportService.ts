@@ -0,0 +1,478 @@
+import { randomUUID } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import archiver from 'archiver';
+import { DatabaseService } from './DatabaseService';
+import { ElasticsearchService, EmailDocument } from './ElasticsearchService';
+import { BlobStore } from './BlobStore';
+import { logger } from '../utils/logger';
+import { EMAIL_DOCUMENT_SELECT, toEmailDocument } from '../utils/emailDocument';
+import { buildEmailFilters } from '../utils/emailFilters';
+import { AdvancedSearchRequest, buildAdvancedSearchQuery } from '../utils/searchQuery';
+import { toMboxEntry } from '../utils/mailArchives';
+import { composeRawMessage } from '../utils/messageSource';
+
+export type ExportFormat = 'mbox' | 'eml' | 'csv' | 'jsonl';
+export type ExportJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['mbox', 'eml', 'csv', 'jsonl'];
+
+// What to export: `GET /api/emails` filters, or a `POST /api/search/advanced` body if given
+export interface ExportCriteria {
+  filters?: Record<string, any>;
+  search?: AdvancedSearchRequest;
+}
+
+export interface ExportJob {
+  id: string;
+  format: ExportFormat;
+  status: ExportJobStatus;
+  total: number | null;
+  exported: number;
+  fileName: string | null;
+  fileSize: number | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  expiresAt: string | null;
+}
+
+// EML exports are a zip with one .eml file per email
+const FORMAT_FILES: Record<ExportFormat, { extension: string; contentType: string }> = {
+  mbox: { extension: 'mbox', contentType: 'application/mbox' },
+  eml: { extension: 'zip', contentType: 'application/zip' },
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  jsonl: { extension: 'jsonl', contentType: 'application/x-ndjson' }
+};
+
+const CSV_COLUMNS: Array<[string, (email: EmailDocument) => any]> = [
+  ['id', email => email.id],
+  ['message_id', email => email.messageId],
+  ['date', email => email.date],
+  ['account', email => email.accountName],
+  ['folder', email => email.folder],
+  ['labels', email => (email.labels || []).join('; ')],
+  ['from_name', email => email.fromName],
+  ['from_email', email => email.fromEmail],
+  ['to', email => email.toEmails.join('; ')],
+  ['cc', email => email.ccEmails.join('; ')],
+  ['subject', email => email.subject],
+  ['ai_category', email => email.aiCategory],
+  ['ai_confidence', email => email.aiConfidence],
+  ['is_read', email => email.isRead],
+  ['is_important', email => email.isImportant],
+  ['thread_id', email => email.threadId],
+  ['attachments', email => email.attachments.length]
+];
+
+const toCsvValue = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  // Spreadsheets evaluate cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (values: any[]): string => `${values.map(toCsvValue).join(',')}\r\n`;
+
+// Only what a zip entry needs; rows without a stored message are loaded in full when they are written
+const ZIP_ENTRY_SELECT = 'SELECT e.id, e.public_id, e.raw_blob_id, e.date FROM emails e';
+
+// Resolves true once the zip has written the entry just appended, false if the zip was closed first
+const entryWritten = (zip: archiver.Archiver): Promise<boolean> => new Promise((resolve, reject) => {
+  const settle = (error: Error | null, written: boolean) => {
+    zip.off('entry', onEntry);
+    zip.off('close', onClose);
+    zip.off('error', onError);
+    if (error) {
+      reject(error);
+    } else {
+      resolve(written);
+    }
+  };
+  const onEntry = () => settle(null, true);
+  const onClose = () => settle(null, false);
+  const onError = (error: Error) => settle(error, false);
+  zip.on('entry', onEntry);
+  zip.on('close', onClose);
+  zip.on('error', onError);
+});
+
+/**
+ * Writes emails matching `GET /api/emails` filters or an advanced search
+ * query as mbox, a zip of .eml files, CSV or JSONL. Small exports are
+ * streamed straight to the client; large ones run as background jobs whose
+ * file can be downloaded until it expires.
+ */
+export class ExportService {
+  private databaseService: DatabaseService;
+  private elasticsearchService: ElasticsearchService;
+  private blobStore: BlobStore;
+  private storagePath: string;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private run: Promise<void> | null = null;
+  private rerun: boolean = false;
+  private stopping: boolean = false;
+  private abortController: AbortController | null = null;
+
+  constructor(databaseService: DatabaseService, elasticsearchService: ElasticsearchService, blobStore: BlobStore) {
+    this.databaseService = databaseService;
+    this.elasticsearchService = elasticsearchService;
+    this.blobStore = blobStore;
+    this.storagePath = path.resolve(process.env.EXPORT_STORAGE_PATH || './data/exports');
+  }
+
+  getContentType(format: ExportFormat): string {
+    return FORMAT_FILES[format].contentType;
+  }
+
+  getFileName(format: ExportFormat, date: Date = new Date()): string {
+    return `emails-${date.toISOString().replace(/[:.]/g, '-')}.${FORMAT_FILES[format].extension}`;
+  }
+
+  // Number of emails the criteria match; invalid filters throw
+  async count(criteria: ExportCriteria): Promise<number> {
+    if (criteria.search) {
+      return this.elasticsearchService.countEmails(buildAdvancedSearchQuery(criteria.search).query);
+    }
+
+    const { whereClause, params } = buildEmailFilters(criteria.filters || {});
+    const result = await this.databaseService.query(`SELECT COUNT(*)::int AS count FROM emails e ${whereClause}`, params);
+    return result.rows[0].count;
+  }
+
+  /**
+   * The export as a stream. `onProgress` is called with the number of
+   * emails written since the last call.
+   */
+  async createStream(format: ExportFormat, criteria: ExportCriteria, onProgress?: (count: number) => void): Promise<NodeJS.ReadableStream> {
+    if (format === 'eml') {
+      return this.createZipStream(criteria, onProgress);
+    }
+    return Readable.from(this.render(format, criteria, onProgress));
+  }
+
+  async createJob(format: ExportFormat, criteria: ExportCriteria, total: number | null = null): Promise<ExportJob> {
+    const result = await this.databaseService.query(`
+      INSERT INTO export_jobs (id, format, criteria, total)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `, [randomUUID(), format, JSON.stringify(criteria), total]);
+
+    this.processJobsSoon();
+    return this.mapJobRow(result.rows[0]);
+  }
+
+  async getJob(id: string): Promise<ExportJob | null> {
+    const result = await this.databaseService.query('SELECT * FROM export_jobs WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapJobRow(result.rows[0]) : null;
+  }
+
+  // Path of a completed job's file, or null once it is gone
+  async getJobFilePath(job: ExportJob): Promise<string | null> {
+    if (job.status !== 'completed' || !job.fileName) {
+      return null;
+    }
+
+    const filePath = path.join(this.storagePath, job.fileName);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch {
+      return null;
+    }
+  }
+
+  async start(): Promise<void> {
+    const cleanupIntervalMinutes = parseInt(process.env.EXPORT_CLEANUP_INTERVAL_MINUTES || '60');
+
+    // Jobs interrupted by a shutdown start over
+    await this.databaseService.query(`
+      UPDATE export_jobs SET status = 'pending', exported = 0, started_at = NULL WHERE status = 'running'
+    `);
+
+    this.stopping = false;
+    this.cleanupInterval = setInterval(() => {
+      this.removeExpiredJobs().catch((error) => {
+        logger.error('Failed to remove expired exports:', error);
+      });
+    }, cleanupIntervalMinutes * 60 * 1000);
+    await this.removeExpiredJobs();
+    this.processJobsSoon();
+    logger.info('Export job runner started');
+  }
+
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    this.abortController?.abort();
+    await this.run;
+  }
+
+  private processJobsSoon(): void {
+    this.processJobs().catch((error) => {
+      logger.error('Failed to process export jobs:', error);
+    });
+  }
+
+  // One export at a time, oldest first
+  private async processJobs(): Promise<void> {
+    if (this.run) {
+      this.rerun = true;
+      return this.run;
+    }
+
+    this.run = (async () => {
+      do {
+        this.rerun = false;
+        let job: any;
+        while (!this.stopping && (job = await this.claimNextJob())) {
+          await this.runJob(job);
+        }
+      } while (this.rerun && !this.stopping);
+    })().finally(() => {
+      this.run = null;
+    });
+    return this.run;
+  }
+
+  private async claimNextJob(): Promise<any | null> {
+    const result = await this.databaseService.query(`
+      UPDATE export_jobs
+      SET status = 'running', started_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT id FROM export_jobs
+        WHERE status = 'pending'
+        ORDER BY created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `);
+    return result.rows[0] || null;
+  }
+
+  private async runJob(job: any): Promise<void> {
+    const retentionHours = parseInt(process.env.EXPORT_RETENTION_HOURS || '24');
+    const fileName = `${job.id}.${FORMAT_FILES[job.format as ExportFormat].extension}`;
+    const filePath = path.join(this.storagePath, fileName);
+    const partialPath = `${filePath}.part`;
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    let exported = 0;
+    let reportedAt = Date.now();
+    const onProgress = (count: number) => {
+      exported += count;
+      if (Date.now() - reportedAt >= 2000) {
+        reportedAt = Date.now();
+        this.databaseService.query('UPDATE export_jobs SET exported = $1 WHERE id = $2', [exported, job.id]).catch((error) => {
+          logger.error(`Failed to record progress of export ${job.id}:`, error);
+        });
+      }
+    };
+
+    logger.info(`Exporting ${job.total ?? 'all matching'} emails as ${job.format} for job ${job.id}`);
+    try {
+      await fs.mkdir(this.storagePath, { recursive: true });
+      const stream = await this.createStream(job.format, job.criteria, onProgress);
+      await pipeline(stream, createWriteStream(partialPath), { signal: controller.signal });
+      await fs.rename(partialPath, filePath);
+      const { size } = await fs.stat(filePath);
+
+      await this.databaseService.query(`
+        UPDATE export_jobs
+        SET status = 'completed', exported = $1, file_name = $2, file_size = $3, finished_at = CURRENT_TIMESTAMP,
+            expires_at = CURRENT_TIMESTAMP + make_interval(hours => $4::int)
+        WHERE id = $5
+      `, [exported, fileName, size, retentionHours, job.id]);
+      logger.info(`Export ${job.id} completed: ${exported} emails, ${size} bytes`);
+    } catch (error: any) {
+      await fs.rm(partialPath, { force: true });
+
+      if (controller.signal.aborted) {
+        await this.databaseService.query(`
+          UPDATE export_jobs SET status = 'pending', exported = 0, started_at = NULL WHERE id = $1
+        `, [job.id]);
+        logger.info(`Export ${job.id} interrupted by shutdown, it will start over`);
+        return;
+      }
+
+      await this.databaseService.query(`
+        UPDATE export_jobs
+        SET status = 'failed', exported = $1, error = $2, finished_at = CURRENT_TIMESTAMP,
+            expires_at = CURRENT_TIMESTAMP + make_interval(hours => $3::int)
+        WHERE id = $4
+      `, [exported, error?.message || String(error), retentionHours, job.id]);
+      logger.error(`Export ${job.id} failed:`, error);
+    } finally {
+      this.abortController = null;
+    }
+  }
+
+  private async removeExpiredJobs(): Promise<void> {
+    const expired = await this.databaseService.query(`
+      DELETE FROM export_jobs WHERE expires_at < CURRENT_TIMESTAMP RETURNING id, file_name
+    `);
+
+    for (const job of expired.rows) {
+      if (job.file_name) {
+        await fs.rm(path.join(this.storagePath, job.file_name), { force: true });
+      }
+    }
+    if (expired.rows.length > 0) {
+      logger.info(`Removed ${expired.rows.length} expired exports`);
+    }
+  }
+
+  private async *render(format: ExportFormat, criteria: ExportCriteria, onProgress?: (count: number) => void): AsyncGenerator<Buffer | string> {
+    if (format === 'csv') {
+      yield toCsvLine(CSV_COLUMNS.map(([name]) => name));
+    }
+
+    for await (const rows of this.iterateEmails(criteria)) {
+      switch (format) {
+        case 'mbox':
+          for (const row of rows) {
+            yield toMboxEntry(await this.getRawMessage(row), row.from_email || '', new Date(row.date));
+          }
+          break;
+        case 'csv':
+          yield rows.map((row) => {
+            const email = toEmailDocument(row);
+            return toCsvLine(CSV_COLUMNS.map(([, value]) => value(email)));
+          }).join('');
+          break;
+        case 'jsonl':
+          yield rows.map((row) => `${JSON.stringify(toEmailDocument(row))}\n`).join('');
+          break;
+        default:
+          throw new Error(`Unsupported export format: ${format}`);
+      }
+      onProgress?.(rows.length);
+    }
+  }
+
+  /**
+   * Entries are added as the zip is read: the next message is only loaded
+   * once the previous entry has been written, so backpressure from the
+   * reader pauses the export and one message is held at a time.
+   */
+  private async createZipStream(criteria: ExportCriteria, onProgress?: (count: number) => void): Promise<NodeJS.ReadableStream> {
+    const zip = archiver('zip', { zlib: { level: 6 } });
+
+    const addEntries = async (): Promise<void> => {
+      for await (const rows of this.iterateEmails(criteria, ZIP_ENTRY_SELECT)) {
+        for (const row of rows) {
+          const raw = await this.getRawMessage(row);
+          const written = entryWritten(zip);
+          zip.append(raw, { name: `${row.public_id}.eml`, date: new Date(row.date) });
+          if (!await written) {
+            return;
+          }
+          onProgress?.(1);
+        }
+      }
+      await zip.finalize();
+    };
+    addEntries().catch((error) => {
+      zip.destroy(error);
+    });
+
+    return zip;
+  }
+
+  /**
+   * The stored RFC 822 source, or one rebuilt from the row when the email
+   * has none. A row with only ids is loaded in full first.
+   */
+  private async getRawMessage(row: any): Promise<Buffer> {
+    const raw = row.raw_blob_id ? await this.blobStore.get(row.raw_blob_id) : null;
+    if (raw) {
+      return raw;
+    }
+
+    if (row.message_id === undefined) {
+      const result = await this.databaseService.query(`${EMAIL_DOCUMENT_SELECT} WHERE e.public_id = $1`, [row.public_id]);
+      if (result.rows.length === 0) {
+        throw new Error(`Email ${row.public_id} was deleted during the export`);
+      }
+      row = result.rows[0];
+    }
+    return composeRawMessage(toEmailDocument(row));
+  }
+
+  // Matching `emails` rows in pages: newest first for filters, in search order for queries
+  private async *iterateEmails(criteria: ExportCriteria, select: string = EMAIL_DOCUMENT_SELECT): AsyncGenerator<any[]> {
+    const batchSize = parseInt(process.env.EXPORT_BATCH_SIZE || '500');
+
+    if (criteria.search) {
+      const ids: string[] = [];
+      await this.elasticsearchService.scanEmails(async (hits) => {
+        ids.push(...hits.map(hit => hit.id));
+      }, [], 1000, buildAdvancedSearchQuery(criteria.search));
+
+      for (let i = 0; i < ids.length; i += batchSize) {
+        const batch = ids.slice(i, i + batchSize);
+        const result = await this.databaseService.query(`
+          ${select}
+          WHERE e.public_id = ANY($1::uuid[])
+        `, [batch]);
+
+        // Documents whose email is already gone from Postgres are skipped
+        const rows = new Map<string, any>(result.rows.map((row: any) => [row.public_id, row]));
+        yield batch.filter(id => rows.has(id)).map(id => rows.get(id));
+      }
+      return;
+    }
+
+    const { whereClause, params } = buildEmailFilters(criteria.filters || {});
+    const cursor = params.length;
+    let last: { date: Date; id: number } | null = null;
+
+    for (;;) {
+      const result = await this.databaseService.query(`
+        ${select}
+        ${whereClause ? `${whereClause} AND` : 'WHERE'} ($${cursor + 1}::timestamp IS NULL OR (e.date, e.id) < ($${cursor + 1}::timestamp, $${cursor + 2}::int))
+        ORDER BY e.date DESC, e.id DESC
+        LIMIT $${cursor + 3}
+      `, [...params, last?.date ?? null, last?.id ?? null, batchSize]);
+
+      if (result.rows.length === 0) {
+        return;
+      }
+
+      yield result.rows;
+      const lastRow = result.rows[result.rows.length - 1];
+      last = { date: lastRow.date, id: lastRow.id };
+    }
+  }
+
+  private mapJobRow(row: any): ExportJob {
+    return {
+      id: row.id,
+      format: row.format,
+      status: row.status,
+      total: row.total,
+      exported: row.exported,
+      fileName: row.file_name,
+      fileSize: row.file_size !== null ? Number(row.file_size) : null,
+      error: row.error,
+      createdAt: row.created_at,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      expiresAt: row.expires_at
+    };
+  }
+}
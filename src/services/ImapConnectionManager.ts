@@ -0,0 +1,413 @@
+import Imap from 'imap';
+import { logger } from '../utils/logger';
+import { IMAPAccount } from './EmailSyncService';
+import { buildXOAuth2Token } from './OAuthService';
+
+export type FolderWatchMode = 'idle' | 'poll';
+
+export type ConnectionStatus = 'connected' | 'reconnecting' | 'auth_failed' | 'disabled';
+
+export interface FolderWatch {
+  folder: string;
+  mode: FolderWatchMode;
+  imap: Imap | null;
+  box: Imap.Box | null;
+}
+
+export interface ConnectionHandlers {
+  // Control connection is up; runs before any folder is watched
+  onControlReady(accountId: number, imap: Imap): Promise<void>;
+  // Dedicated IDLE connection has its folder selected
+  onFolderReady(accountId: number, folder: string, imap: Imap, box: Imap.Box): Promise<void>;
+  onMail(accountId: number, folder: string, imap: Imap, box: Imap.Box): void;
+  // Flags changed or messages were expunged in the selected folder
+  onChange(accountId: number, folder: string, imap: Imap, box: Imap.Box): void;
+  // Folders over the IDLE cap are checked on the control connection instead
+  onPoll(accountId: number, folders: string[]): Promise<void>;
+  // Control connection status changed; after auth_failed the account is no longer watched
+  onStatusChange(accountId: number, status: ConnectionStatus, error?: string): void;
+  // Runs before every connection attempt, e.g. to refresh an expired OAuth2 access token
+  beforeConnect(account: IMAPAccount): Promise<void>;
+  // Folders to watch once the control connection is ready; Gmail accounts watch All Mail instead of `folders`
+  getWatchedFolders(account: IMAPAccount): string[];
+}
+
+interface AccountConnections {
+  account: IMAPAccount;
+  control: Imap | null;
+  controlQueue: Promise<void>;
+  folders: Map<string, FolderWatch>;
+  pollTimer: NodeJS.Timeout | null;
+  // Keyed by 'control' or the folder path
+  reconnectTimers: Map<string, NodeJS.Timeout>;
+  reconnectAttempts: Map<string, number>;
+}
+
+const CONTROL_KEY = 'control';
+
+// node-imap tags login failures with source 'authentication'
+export const isAuthenticationError = (error: any): boolean => {
+  return error?.source === 'authentication'
+    || error?.textCode === 'AUTHENTICATIONFAILED'
+    || /AUTHENTICATIONFAILED|invalid credentials/i.test(error?.message || '');
+};
+
+/**
+ * Owns the long-lived IMAP connections of every watched account. IMAP has a
+ * single selected mailbox per connection, so each watched folder gets its own
+ * IDLE connection up to IMAP_MAX_IDLE_CONNECTIONS; the remaining folders are
+ * polled every IMAP_POLL_INTERVAL_SECONDS on the account's control connection.
+ *
+ * Dropped connections are reopened with exponential backoff and jitter.
+ * Authentication failures stop the account instead of retrying.
+ */
+export class ImapConnectionManager {
+  private handlers: ConnectionHandlers;
+  private accounts: Map<number, AccountConnections> = new Map();
+  private maxIdlePerAccount: number;
+  private pollIntervalMs: number;
+  private reconnectBaseMs: number;
+  private reconnectMaxMs: number;
+
+  constructor(handlers: ConnectionHandlers) {
+    this.handlers = handlers;
+    this.maxIdlePerAccount = parseInt(process.env.IMAP_MAX_IDLE_CONNECTIONS || '5');
+    this.pollIntervalMs = parseInt(process.env.IMAP_POLL_INTERVAL_SECONDS || '60') * 1000;
+    this.reconnectBaseMs = parseInt(process.env.IMAP_RECONNECT_BASE_SECONDS || '5') * 1000;
+    this.reconnectMaxMs = parseInt(process.env.IMAP_RECONNECT_MAX_SECONDS || '900') * 1000;
+  }
+
+  async createConnection(account: IMAPAccount, timeoutMs?: number): Promise<Imap> {
+    await this.handlers.beforeConnect(account);
+
+    const isOAuth = account.authType === 'oauth2';
+
+    return new Imap({
+      user: account.username,
+      // node-imap prefers XOAUTH2 over LOGIN when a token is given
+      password: isOAuth ? '' : account.password,
+      xoauth2: isOAuth ? buildXOAuth2Token(account.username, account.accessToken) : undefined,
+      host: account.host,
+      port: account.port,
+      tls: account.secure,
+      tlsOptions: { rejectUnauthorized: false },
+      connTimeout: timeoutMs || 60000,
+      authTimeout: timeoutMs || 30000,
+      keepalive: {
+        interval: 10000,
+        idleInterval: 300000,
+        forceNoop: true
+      }
+    });
+  }
+
+  // Short-lived connection for work that must not disturb the watched folders
+  async connect(account: IMAPAccount, timeoutMs?: number): Promise<Imap> {
+    const imap = await this.createConnection(account, timeoutMs);
+
+    return new Promise((resolve, reject) => {
+      imap.once('ready', () => resolve(imap));
+      // Keep a listener attached so late socket errors don't crash the process
+      imap.on('error', reject);
+      imap.connect();
+    });
+  }
+
+  watchAccount(account: IMAPAccount): void {
+    this.unwatchAccount(account.id);
+
+    const state: AccountConnections = {
+      account,
+      control: null,
+      controlQueue: Promise.resolve(),
+      folders: new Map(),
+      pollTimer: null,
+      reconnectTimers: new Map(),
+      reconnectAttempts: new Map()
+    };
+    this.accounts.set(account.id, state);
+
+    this.openControl(state);
+  }
+
+  unwatchAccount(accountId: number): void {
+    const state = this.accounts.get(accountId);
+    if (!state) return;
+
+    this.accounts.delete(accountId);
+
+    if (state.pollTimer) {
+      clearInterval(state.pollTimer);
+    }
+    state.reconnectTimers.forEach(timer => clearTimeout(timer));
+
+    const connections = [state.control, ...Array.from(state.folders.values()).map(watch => watch.imap)];
+    for (const imap of connections) {
+      if (!imap) continue;
+      try {
+        imap.end();
+      } catch (error) {
+        logger.error(`Error closing connection for account ${accountId}:`, error);
+      }
+    }
+
+    logger.info(`Closed IMAP connections for account ${accountId}`);
+  }
+
+  stopAll(): void {
+    for (const accountId of Array.from(this.accounts.keys())) {
+      this.unwatchAccount(accountId);
+    }
+  }
+
+  isConnected(accountId: number): boolean {
+    return !!this.accounts.get(accountId)?.control;
+  }
+
+  getWatches(accountId: number): FolderWatch[] {
+    return Array.from(this.accounts.get(accountId)?.folders.values() || []);
+  }
+
+  /**
+   * Run a task on the account's control connection. Tasks are serialized
+   * because each one may select a different mailbox.
+   */
+  withControl<T>(accountId: number, task: (imap: Imap) => Promise<T>): Promise<T> {
+    const state = this.accounts.get(accountId);
+    if (!state) {
+      return Promise.reject(new Error(`Account ${accountId} is not being watched`));
+    }
+
+    const run = state.controlQueue.then(() => {
+      if (!state.control) {
+        throw new Error(`Account ${accountId} is not connected`);
+      }
+      return task(state.control);
+    });
+    state.controlQueue = run.then(() => undefined, () => undefined);
+
+    return run;
+  }
+
+  private async openControl(state: AccountConnections): Promise<void> {
+    const { account } = state;
+    const imap = await this.prepareConnection(state, CONTROL_KEY, () => this.openControl(state));
+    if (!imap) return;
+
+    imap.once('ready', async () => {
+      if (this.accounts.get(account.id) !== state) {
+        imap.end();
+        return;
+      }
+
+      logger.info(`IMAP connection ready for account: ${account.name}`);
+      state.control = imap;
+      state.reconnectAttempts.delete(CONTROL_KEY);
+      this.handlers.onStatusChange(account.id, 'connected');
+
+      try {
+        await this.handlers.onControlReady(account.id, imap);
+      } catch (error) {
+        logger.error(`Error preparing account ${account.name}:`, error);
+      }
+
+      if (state.folders.size === 0) {
+        this.startFolderWatches(state);
+      }
+    });
+
+    // Sockets often emit more than one error while tearing down, so the
+    // listener stays attached and only the first error or end reconnects
+    let closed = false;
+
+    imap.on('error', (err: any) => {
+      logger.error(`IMAP error for account ${account.name}:`, err);
+      if (closed) return;
+      closed = true;
+      if (state.control === imap) {
+        state.control = null;
+      }
+
+      if (isAuthenticationError(err)) {
+        this.handleAuthFailure(state, err);
+        return;
+      }
+
+      this.scheduleReconnect(state, CONTROL_KEY, () => this.openControl(state), err);
+    });
+
+    imap.once('end', () => {
+      logger.info(`IMAP connection ended for account: ${account.name}`);
+      if (closed) return;
+      closed = true;
+      if (state.control === imap) {
+        state.control = null;
+      }
+      this.scheduleReconnect(state, CONTROL_KEY, () => this.openControl(state));
+    });
+
+    imap.connect();
+  }
+
+  private startFolderWatches(state: AccountConnections): void {
+    // INBOX gets a dedicated connection first when the cap is reached
+    const folders = [...this.handlers.getWatchedFolders(state.account)].sort((a, b) =>
+      Number(b.toUpperCase() === 'INBOX') - Number(a.toUpperCase() === 'INBOX')
+    );
+
+    folders.forEach((folder, index) => {
+      const watch: FolderWatch = {
+        folder,
+        mode: index < this.maxIdlePerAccount ? 'idle' : 'poll',
+        imap: null,
+        box: null
+      };
+      state.folders.set(folder, watch);
+
+      if (watch.mode === 'idle') {
+        this.openFolderConnection(state, watch);
+      }
+    });
+
+    const polled = folders.slice(this.maxIdlePerAccount);
+    if (polled.length > 0) {
+      logger.info(`Polling ${polled.length} folders for account ${state.account.name} every ${this.pollIntervalMs / 1000}s`);
+      const poll = () => {
+        if (!state.control) return;
+        this.handlers.onPoll(state.account.id, polled).catch((error) => {
+          logger.error(`Error polling folders for account ${state.account.name}:`, error);
+        });
+      };
+      poll();
+      state.pollTimer = setInterval(poll, this.pollIntervalMs);
+    }
+  }
+
+  private async openFolderConnection(state: AccountConnections, watch: FolderWatch): Promise<void> {
+    const { account } = state;
+    const imap = await this.prepareConnection(state, watch.folder, () => this.openFolderConnection(state, watch));
+    if (!imap) return;
+
+    imap.once('ready', () => {
+      if (this.accounts.get(account.id) !== state) {
+        imap.end();
+        return;
+      }
+
+      imap.openBox(watch.folder, true, (err, box) => {
+        if (err) {
+          logger.error(`Error opening folder ${watch.folder}:`, err);
+          imap.end();
+          return;
+        }
+
+        watch.imap = imap;
+        watch.box = box;
+        state.reconnectAttempts.delete(watch.folder);
+
+        // node-imap enters IDLE on its own whenever the command queue is empty
+        imap.on('mail', () => {
+          logger.info(`New mail detected in ${watch.folder} for account ${account.name}`);
+          this.handlers.onMail(account.id, watch.folder, imap, box);
+        });
+
+        const handleChange = () => this.handlers.onChange(account.id, watch.folder, imap, box);
+        imap.on('update', handleChange);
+        imap.on('expunge', handleChange);
+
+        this.handlers.onFolderReady(account.id, watch.folder, imap, box).catch((error) => {
+          logger.error(`Error syncing folder ${watch.folder}:`, error);
+        });
+      });
+    });
+
+    let closed = false;
+
+    imap.on('error', (err: any) => {
+      logger.error(`IMAP error for ${watch.folder} on account ${account.name}:`, err);
+      if (closed) return;
+      closed = true;
+      if (watch.imap === imap) {
+        watch.imap = null;
+        watch.box = null;
+      }
+
+      if (isAuthenticationError(err)) {
+        this.handleAuthFailure(state, err);
+        return;
+      }
+
+      this.scheduleReconnect(state, watch.folder, () => this.openFolderConnection(state, watch));
+    });
+
+    imap.once('end', () => {
+      logger.info(`IMAP connection ended for ${watch.folder} on account: ${account.name}`);
+      if (closed) return;
+      closed = true;
+      if (watch.imap === imap) {
+        watch.imap = null;
+        watch.box = null;
+      }
+      this.scheduleReconnect(state, watch.folder, () => this.openFolderConnection(state, watch));
+    });
+
+    imap.connect();
+  }
+
+  // Failures before the socket opens (e.g. token refresh) get the same handling as connection errors
+  private async prepareConnection(state: AccountConnections, key: string, reconnect: () => void): Promise<Imap | null> {
+    try {
+      const imap = await this.createConnection(state.account);
+      if (this.accounts.get(state.account.id) !== state) {
+        return null;
+      }
+      return imap;
+    } catch (error: any) {
+      logger.error(`Failed to prepare IMAP connection for account ${state.account.name}:`, error);
+
+      if (isAuthenticationError(error)) {
+        this.handleAuthFailure(state, error);
+      } else {
+        this.scheduleReconnect(state, key, reconnect, error);
+      }
+      return null;
+    }
+  }
+
+  private handleAuthFailure(state: AccountConnections, error: any): void {
+    if (this.accounts.get(state.account.id) !== state) return;
+
+    logger.error(`Authentication failed for account ${state.account.name}, no longer reconnecting`);
+    this.unwatchAccount(state.account.id);
+    this.handlers.onStatusChange(state.account.id, 'auth_failed', error?.message || String(error));
+  }
+
+  /**
+   * Reopen a dropped connection after min(max, base * 2^attempt), scaled by
+   * a random 50-100% so accounts on the same server don't reconnect in lockstep.
+   * 'error' is usually followed by 'end', so only one timer per key is kept.
+   */
+  private scheduleReconnect(state: AccountConnections, key: string, reconnect: () => void, error?: any): void {
+    if (this.accounts.get(state.account.id) !== state || state.reconnectTimers.has(key)) {
+      return;
+    }
+
+    const attempt = state.reconnectAttempts.get(key) || 0;
+    const ceiling = Math.min(this.reconnectMaxMs, this.reconnectBaseMs * Math.pow(2, attempt));
+    const delay = Math.round(ceiling * (0.5 + Math.random() * 0.5));
+    state.reconnectAttempts.set(key, attempt + 1);
+
+    if (key === CONTROL_KEY) {
+      this.handlers.onStatusChange(state.account.id, 'reconnecting', error?.message);
+    }
+    logger.info(`Reconnecting ${key} for account ${state.account.name} in ${Math.round(delay / 1000)}s (attempt ${attempt + 1})`);
+
+    const timer = setTimeout(() => {
+      state.reconnectTimers.delete(key);
+      if (this.accounts.get(state.account.id) === state) {
+        reconnect();
+      }
+    }, delay);
+    state.reconnectTimers.set(key, timer);
+  }
+}
@@ -0,0 +1,467 @@
+import { randomUUID } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import yauzl from 'yauzl';
+import { DatabaseService } from './DatabaseService';
+import { EmailSyncService } from './EmailSyncService';
+import { logger } from '../utils/logger';
+import { readMbox, readMaildir, isMaildir, isMboxFile } from '../utils/mailArchives';
+
+export type ImportFormat = 'mbox' | 'eml' | 'maildir';
+export type ImportStatus = 'succeeded' | 'partial' | 'failed';
+
+export interface ImportSourceResult {
+  source: string;
+  format: ImportFormat | null;
+  status: ImportStatus;
+  imported: number;
+  duplicates: number;
+  failed: number;
+  // First few failures, by message position or file name
+  errors: string[];
+}
+
+export interface ImportReport {
+  accountId: number;
+  accountName: string;
+  sources: ImportSourceResult[];
+  imported: number;
+  duplicates: number;
+  failed: number;
+}
+
+export interface ImportSource {
+  path: string;
+  // Shown in the report instead of the path, e.g. an upload's original file name
+  name?: string;
+}
+
+export type ImportJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  folder: string | null;
+  totalSources: number;
+  processedSources: number;
+  // Results so far while running, the full report once completed
+  report: ImportReport | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface ImportOptions {
+  folder?: string;
+  // Called after each source with the report so far
+  onProgress?: (report: ImportReport, processedSources: number) => Promise<void>;
+  // Checked between sources; the import stops early when it returns true
+  shouldStop?: () => boolean;
+}
+
+export const IMPORT_ACCOUNT_NAME = 'Imported';
+const MAX_ERRORS_PER_SOURCE = 10;
+
+/**
+ * Ingests mail archives (mbox files, single .eml files, Maildir directories,
+ * or zips of those) into the virtual "Imported" account through the sync
+ * pipeline, so imported mail is categorized, threaded and indexed like
+ * synced mail.
+ */
+export class ImportService {
+  private databaseService: DatabaseService;
+  private emailSyncService: EmailSyncService;
+  private run: Promise<void> | null = null;
+  private rerun: boolean = false;
+  private stopping: boolean = false;
+
+  constructor(databaseService: DatabaseService, emailSyncService: EmailSyncService) {
+    this.databaseService = databaseService;
+    this.emailSyncService = emailSyncService;
+  }
+
+  /**
+   * Queue files for a background import. The job owns the files and
+   * removes them once it has finished.
+   */
+  async createJob(sources: ImportSource[], options: { folder?: string } = {}): Promise<ImportJob> {
+    const result = await this.databaseService.query(`
+      INSERT INTO import_jobs (id, sources, folder)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `, [randomUUID(), JSON.stringify(sources), options.folder || null]);
+
+    this.processJobsSoon();
+    return this.mapJobRow(result.rows[0]);
+  }
+
+  async getJob(id: string): Promise<ImportJob | null> {
+    const result = await this.databaseService.query('SELECT * FROM import_jobs WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapJobRow(result.rows[0]) : null;
+  }
+
+  async start(): Promise<void> {
+    // Jobs interrupted by a shutdown start over; messages already stored count as duplicates
+    await this.databaseService.query(`
+      UPDATE import_jobs SET status = 'pending', processed_sources = 0, report = NULL, started_at = NULL
+      WHERE status = 'running'
+    `);
+
+    this.stopping = false;
+    this.processJobsSoon();
+    logger.info('Import job runner started');
+  }
+
+  // Waits for the source being imported to finish
+  async stop(): Promise<void> {
+    this.stopping = true;
+    await this.run;
+  }
+
+  /**
+   * The account imported mail belongs to, created on first use. It has no
+   * server, so it is never synced.
+   */
+  async getImportAccount(): Promise<{ id: number; name: string }> {
+    await this.databaseService.query(`
+      INSERT INTO email_accounts (name, host, port, secure, username, folders, is_active, account_type)
+      VALUES ($1, '', 0, false, '', '{}', false, 'import')
+      ON CONFLICT (account_type) WHERE account_type = 'import' DO NOTHING
+    `, [IMPORT_ACCOUNT_NAME]);
+
+    const result = await this.databaseService.query(`
+      SELECT id, name FROM email_accounts WHERE account_type = 'import'
+    `);
+    return result.rows[0];
+  }
+
+  /**
+   * Import files and directories. A failing source is reported and the
+   * rest still run; `folder` overrides the folder derived from each source.
+   */
+  async importSources(sources: ImportSource[], options: ImportOptions = {}): Promise<ImportReport> {
+    const account = await this.getImportAccount();
+    const results: ImportSourceResult[] = [];
+
+    for (const [index, source] of sources.entries()) {
+      if (options.shouldStop?.()) {
+        break;
+      }
+
+      const name = source.name || path.basename(source.path);
+      try {
+        await this.importPath(account, source.path, name, options.folder, results);
+      } catch (error: any) {
+        logger.error(`Failed to import ${name}:`, error);
+        results.push({
+          ...this.emptyResult(name, null),
+          status: 'failed',
+          failed: 1,
+          errors: [error?.message || String(error)]
+        });
+      }
+
+      await options.onProgress?.(this.summarize(account, results), index + 1);
+    }
+
+    const report = this.summarize(account, results);
+    logger.info(`Import finished: ${report.imported} imported, ${report.duplicates} duplicates, ${report.failed} failed from ${results.length} sources`);
+
+    return report;
+  }
+
+  private summarize(account: { id: number; name: string }, results: ImportSourceResult[]): ImportReport {
+    return {
+      accountId: account.id,
+      accountName: account.name,
+      sources: results,
+      imported: results.reduce((sum, result) => sum + result.imported, 0),
+      duplicates: results.reduce((sum, result) => sum + result.duplicates, 0),
+      failed: results.reduce((sum, result) => sum + result.failed, 0)
+    };
+  }
+
+  private processJobsSoon(): void {
+    this.processJobs().catch((error) => {
+      logger.error('Failed to process import jobs:', error);
+    });
+  }
+
+  // One import at a time, oldest first
+  private async processJobs(): Promise<void> {
+    if (this.run) {
+      this.rerun = true;
+      return this.run;
+    }
+
+    this.run = (async () => {
+      do {
+        this.rerun = false;
+        let job: any;
+        while (!this.stopping && (job = await this.claimNextJob())) {
+          await this.runJob(job);
+        }
+      } while (this.rerun && !this.stopping);
+    })().finally(() => {
+      this.run = null;
+    });
+    return this.run;
+  }
+
+  private async claimNextJob(): Promise<any | null> {
+    const result = await this.databaseService.query(`
+      UPDATE import_jobs
+      SET status = 'running', started_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT id FROM import_jobs
+        WHERE status = 'pending'
+        ORDER BY created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `);
+    return result.rows[0] || null;
+  }
+
+  private async runJob(job: any): Promise<void> {
+    const sources: ImportSource[] = job.sources;
+    logger.info(`Importing ${sources.length} uploaded files for job ${job.id}`);
+
+    let processed = 0;
+    try {
+      const report = await this.importSources(sources, {
+        folder: job.folder || undefined,
+        shouldStop: () => this.stopping,
+        onProgress: async (partial, processedSources) => {
+          processed = processedSources;
+          await this.databaseService.query(`
+            UPDATE import_jobs SET processed_sources = $1, report = $2 WHERE id = $3
+          `, [processedSources, JSON.stringify(partial), job.id]);
+        }
+      });
+
+      if (processed < sources.length) {
+        await this.databaseService.query(`
+          UPDATE import_jobs SET status = 'pending', processed_sources = 0, report = NULL, started_at = NULL WHERE id = $1
+        `, [job.id]);
+        logger.info(`Import ${job.id} interrupted by shutdown, it will start over`);
+        return;
+      }
+
+      await this.databaseService.query(`
+        UPDATE import_jobs SET status = 'completed', report = $1, finished_at = CURRENT_TIMESTAMP WHERE id = $2
+      `, [JSON.stringify(report), job.id]);
+    } catch (error: any) {
+      await this.databaseService.query(`
+        UPDATE import_jobs SET status = 'failed', error = $1, finished_at = CURRENT_TIMESTAMP WHERE id = $2
+      `, [error?.message || String(error), job.id]);
+      logger.error(`Import ${job.id} failed:`, error);
+    }
+
+    await Promise.all(sources.map(source => fs.rm(source.path, { force: true })));
+  }
+
+  private mapJobRow(row: any): ImportJob {
+    return {
+      id: row.id,
+      status: row.status,
+      folder: row.folder,
+      totalSources: row.sources.length,
+      processedSources: row.processed_sources,
+      report: row.report,
+      error: row.error,
+      createdAt: row.created_at,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at
+    };
+  }
+
+  private async importPath(
+    account: { id: number; name: string },
+    sourcePath: string,
+    name: string,
+    folder: string | undefined,
+    results: ImportSourceResult[]
+  ): Promise<void> {
+    const stat = await fs.stat(sourcePath);
+
+    if (stat.isDirectory()) {
+      if (await isMaildir(sourcePath)) {
+        results.push(await this.importMaildir(account, sourcePath, name, folder));
+        return;
+      }
+
+      const entries = (await fs.readdir(sourcePath, { withFileTypes: true }))
+        .filter(entry => !entry.name.startsWith('.'))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        await this.importPath(account, path.join(sourcePath, entry.name), `${name}/${entry.name}`, folder, results);
+      }
+      return;
+    }
+
+    const extension = path.extname(name).toLowerCase();
+    if (extension === '.eml') {
+      results.push(await this.importEml(account, sourcePath, name, folder));
+    } else if (extension === '.zip') {
+      await this.importZip(account, sourcePath, name, folder, results);
+    } else if (['.mbox', '.mbx'].includes(extension) || await isMboxFile(sourcePath)) {
+      results.push(await this.importMbox(account, sourcePath, name, folder));
+    } else if (!name.includes('/')) {
+      // Files picked explicitly must be importable; unknown files inside directories are skipped
+      throw new Error(`Unsupported file type: ${name} (expected .mbox, .eml, .zip or a Maildir directory)`);
+    }
+  }
+
+  private async importEml(account: { id: number; name: string }, filePath: string, name: string, folder?: string): Promise<ImportSourceResult> {
+    const result = this.emptyResult(name, 'eml');
+    await this.ingest(result, 'message', () => fs.readFile(filePath), account, folder || IMPORT_ACCOUNT_NAME, []);
+    return this.finish(result);
+  }
+
+  private async importMbox(account: { id: number; name: string }, filePath: string, name: string, folder?: string): Promise<ImportSourceResult> {
+    const result = this.emptyResult(name, 'mbox');
+    // "Sent Items.mbox" becomes the "Sent Items" folder
+    const target = folder || path.basename(name, path.extname(name)) || IMPORT_ACCOUNT_NAME;
+
+    let position = 0;
+    for await (const raw of readMbox(filePath)) {
+      position++;
+      await this.ingest(result, `message ${position}`, async () => raw, account, target, []);
+    }
+    return this.finish(result);
+  }
+
+  private async importMaildir(account: { id: number; name: string }, dirPath: string, name: string, folder?: string): Promise<ImportSourceResult> {
+    const result = this.emptyResult(name, 'maildir');
+
+    for await (const message of readMaildir(dirPath)) {
+      const target = folder ? (message.folder === 'INBOX' ? folder : `${folder}/${message.folder}`) : message.folder;
+      await this.ingest(result, path.relative(dirPath, message.path), () => fs.readFile(message.path), account, target, message.flags);
+    }
+    return this.finish(result);
+  }
+
+  // Zips are unpacked to a temporary directory and imported like one
+  private async importZip(
+    account: { id: number; name: string },
+    filePath: string,
+    name: string,
+    folder: string | undefined,
+    results: ImportSourceResult[]
+  ): Promise<void> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'reachinbox-import-'));
+
+    try {
+      await this.extractZip(filePath, dir, name);
+
+      const before = results.length;
+      await this.importPath(account, dir, name, folder, results);
+      if (results.length === before) {
+        throw new Error(`${name} contains no .mbox, .eml or Maildir`);
+      }
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Stream a zip's entries to disk. The entry count and total uncompressed
+   * size are checked against IMPORT_MAX_ZIP_ENTRIES and IMPORT_MAX_UNZIPPED_MB
+   * from the central directory before anything is extracted; yauzl rejects
+   * entries whose data is larger than their declared size.
+   */
+  private async extractZip(filePath: string, dir: string, name: string): Promise<void> {
+    const maxEntries = parseInt(process.env.IMPORT_MAX_ZIP_ENTRIES || '100000');
+    const maxBytes = parseInt(process.env.IMPORT_MAX_UNZIPPED_MB || '4096') * 1024 * 1024;
+
+    const zip = await new Promise<yauzl.ZipFile>((resolve, reject) => {
+      yauzl.open(filePath, { lazyEntries: true, autoClose: false }, (error, zipfile) => (error ? reject(error) : resolve(zipfile)));
+    });
+
+    try {
+      if (zip.entryCount > maxEntries) {
+        throw new Error(`${name} has ${zip.entryCount} entries, more than the ${maxEntries} allowed`);
+      }
+
+      const entries = await new Promise<yauzl.Entry[]>((resolve, reject) => {
+        const listed: yauzl.Entry[] = [];
+        zip.on('entry', (entry: yauzl.Entry) => {
+          listed.push(entry);
+          zip.readEntry();
+        });
+        zip.once('end', () => resolve(listed));
+        zip.once('error', reject);
+        zip.readEntry();
+      });
+
+      const totalBytes = entries.reduce((sum, entry) => sum + entry.uncompressedSize, 0);
+      if (totalBytes > maxBytes) {
+        throw new Error(`${name} unpacks to ${Math.ceil(totalBytes / 1024 / 1024)} MB, more than the ${maxBytes / 1024 / 1024} MB allowed`);
+      }
+
+      for (const entry of entries) {
+        const target = path.resolve(dir, entry.fileName);
+        // Entries must not escape the directory ("zip slip")
+        if (!target.startsWith(dir + path.sep)) {
+          throw new Error(`Unsafe path in ${name}: ${entry.fileName}`);
+        }
+        if (entry.fileName.endsWith('/')) {
+          await fs.mkdir(target, { recursive: true });
+          continue;
+        }
+
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        const stream = await new Promise<NodeJS.ReadableStream>((resolve, reject) => {
+          zip.openReadStream(entry, (error, readStream) => (error ? reject(error) : resolve(readStream)));
+        });
+        await pipeline(stream, createWriteStream(target));
+      }
+    } finally {
+      zip.close();
+    }
+  }
+
+  private async ingest(
+    result: ImportSourceResult,
+    label: string,
+    read: () => Promise<Buffer>,
+    account: { id: number; name: string },
+    folder: string,
+    flags: string[]
+  ): Promise<void> {
+    try {
+      const stored = await this.emailSyncService.ingestRawMessage(await read(), account, folder, flags);
+      if (stored) {
+        result.imported++;
+      } else {
+        result.duplicates++;
+      }
+    } catch (error: any) {
+      result.failed++;
+      if (result.errors.length < MAX_ERRORS_PER_SOURCE) {
+        result.errors.push(`${label}: ${error?.message || String(error)}`);
+      }
+      logger.error(`Failed to import ${label} of ${result.source}:`, error);
+    }
+  }
+
+  private emptyResult(source: string, format: ImportFormat | null): ImportSourceResult {
+    return { source, format, status: 'succeeded', imported: 0, duplicates: 0, failed: 0, errors: [] };
+  }
+
+  private finish(result: ImportSourceResult): ImportSourceResult {
+    const handled = result.imported + result.duplicates;
+    if (result.failed > 0) {
+      result.status = handled > 0 ? 'partial' : 'failed';
+    } else if (handled === 0) {
+      result.status = 'failed';
+      result.errors.push('No messages found');
+    }
+    return result;
+  }
+}
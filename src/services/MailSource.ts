@@ -0,0 +1,56 @@
+import { IMAPAccount } from './EmailSyncService';
+import { ImapConnectionManager } from './ImapConnectionManager';
+
+// Account types that are synced from a server; 'import' accounts have no source
+export type MailAccountType = 'imap' | 'pop3';
+
+export const MAIL_ACCOUNT_TYPES: MailAccountType[] = ['imap', 'pop3'];
+
+/**
+ * Where an account's mail comes from. EmailSyncService keeps one source per
+ * account type and routes each account to its own; every source hands the
+ * messages it fetches to the same parse and process path.
+ */
+export interface MailSource {
+  // Start receiving mail for the account, replacing an earlier watch
+  watch(account: IMAPAccount): void;
+  unwatch(accountId: number): void;
+  stopAll(): void;
+  isConnected(accountId: number): boolean;
+  // One full catch-up pass, run by the periodic sync and by resyncs
+  sync(account: IMAPAccount): Promise<void>;
+}
+
+/**
+ * IMAP accounts: IDLE and polling connections come from the connection
+ * manager, catch-up passes from EmailSyncService's folder sync.
+ */
+export class ImapMailSource implements MailSource {
+  private connectionManager: ImapConnectionManager;
+  private syncAccount: (account: IMAPAccount) => Promise<void>;
+
+  constructor(connectionManager: ImapConnectionManager, syncAccount: (account: IMAPAccount) => Promise<void>) {
+    this.connectionManager = connectionManager;
+    this.syncAccount = syncAccount;
+  }
+
+  watch(account: IMAPAccount): void {
+    this.connectionManager.watchAccount(account);
+  }
+
+  unwatch(accountId: number): void {
+    this.connectionManager.unwatchAccount(accountId);
+  }
+
+  stopAll(): void {
+    this.connectionManager.stopAll();
+  }
+
+  isConnected(accountId: number): boolean {
+    return this.connectionManager.isConnected(accountId);
+  }
+
+  sync(account: IMAPAccount): Promise<void> {
+    return this.syncAccount(account);
+  }
+}
@@ -0,0 +1,212 @@
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+
+export type OAuthProvider = 'google' | 'microsoft';
+
+export interface OAuthProviderConfig {
+  clientId: string;
+  clientSecret: string;
+  authUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  imapHost: string;
+  imapPort: number;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date;
+  email: string | null;
+}
+
+interface PendingAuthorization {
+  provider: OAuthProvider;
+  accountId: number | null;
+  name: string | null;
+  expiresAt: number;
+}
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// SASL XOAUTH2 initial client response
+export const buildXOAuth2Token = (user: string, accessToken: string): string => {
+  return Buffer.from(`user=${user}\x01auth=Bearer ${accessToken}\x01\x01`, 'utf8').toString('base64');
+};
+
+export class OAuthService {
+  private providers: Record<OAuthProvider, OAuthProviderConfig>;
+  private redirectBaseUrl: string;
+  private pending: Map<string, PendingAuthorization> = new Map();
+
+  constructor() {
+    const microsoftTenant = process.env.MICROSOFT_TENANT || 'common';
+
+    // Endpoints are configurable so the flow can run against a local stub
+    this.providers = {
+      google: {
+        clientId: process.env.GOOGLE_CLIENT_ID || '',
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+        authUrl: process.env.GOOGLE_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+        tokenUrl: process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+        scopes: ['https://mail.google.com/', 'openid', 'email'],
+        imapHost: 'imap.gmail.com',
+        imapPort: 993
+      },
+      microsoft: {
+        clientId: process.env.MICROSOFT_CLIENT_ID || '',
+        clientSecret: process.env.MICROSOFT_CLIENT_SECRET || '',
+        authUrl: process.env.MICROSOFT_AUTH_URL || `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/authorize`,
+        tokenUrl: process.env.MICROSOFT_TOKEN_URL || `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/token`,
+        scopes: ['https://outlook.office.com/IMAP.AccessAsUser.All', 'offline_access', 'openid', 'email'],
+        imapHost: 'outlook.office365.com',
+        imapPort: 993
+      }
+    };
+
+    this.redirectBaseUrl = process.env.OAUTH_REDIRECT_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+  }
+
+  isProvider(provider: string): provider is OAuthProvider {
+    return provider === 'google' || provider === 'microsoft';
+  }
+
+  getProviderConfig(provider: OAuthProvider): OAuthProviderConfig {
+    return this.providers[provider];
+  }
+
+  isConfigured(provider: OAuthProvider): boolean {
+    const config = this.providers[provider];
+    return !!config.clientId && !!config.clientSecret;
+  }
+
+  getRedirectUri(provider: OAuthProvider): string {
+    return `${this.redirectBaseUrl}/api/emails/accounts/oauth/${provider}/callback`;
+  }
+
+  /**
+   * Build the provider consent URL. The returned state must come back on the
+   * callback; it also remembers whether this creates or re-authorizes an account.
+   */
+  getAuthorizationUrl(
+    provider: OAuthProvider,
+    options: { accountId?: number; name?: string; loginHint?: string } = {}
+  ): string {
+    this.prunePending();
+
+    const state = randomBytes(24).toString('hex');
+    this.pending.set(state, {
+      provider,
+      accountId: options.accountId || null,
+      name: options.name || null,
+      expiresAt: Date.now() + STATE_TTL_MS
+    });
+
+    const config = this.providers[provider];
+    const params = new URLSearchParams({
+      client_id: config.clientId,
+      redirect_uri: this.getRedirectUri(provider),
+      response_type: 'code',
+      scope: config.scopes.join(' '),
+      state
+    });
+
+    if (provider === 'google') {
+      // Google only returns a refresh token on an explicit offline consent
+      params.set('access_type', 'offline');
+      params.set('prompt', 'consent');
+    }
+
+    if (options.loginHint) {
+      params.set('login_hint', options.loginHint);
+    }
+
+    return `${config.authUrl}?${params.toString()}`;
+  }
+
+  consumeState(state: string): PendingAuthorization | null {
+    this.prunePending();
+
+    const pending = this.pending.get(state);
+    if (!pending) {
+      return null;
+    }
+
+    this.pending.delete(state);
+    return pending;
+  }
+
+  async exchangeCode(provider: OAuthProvider, code: string): Promise<OAuthTokens> {
+    return this.requestTokens(provider, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(provider)
+    });
+  }
+
+  async refreshAccessToken(provider: OAuthProvider, refreshToken: string): Promise<OAuthTokens> {
+    const tokens = await this.requestTokens(provider, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken
+    });
+
+    // Providers may omit the refresh token when it was not rotated
+    return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+  }
+
+  private async requestTokens(provider: OAuthProvider, params: Record<string, string>): Promise<OAuthTokens> {
+    const config = this.providers[provider];
+
+    try {
+      const response = await axios.post(config.tokenUrl, new URLSearchParams({
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        ...params
+      }).toString(), {
+        timeout: 10000,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+
+      const data = response.data;
+      return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || null,
+        expiresAt: new Date(Date.now() + Number(data.expires_in || 3600) * 1000),
+        email: this.getEmailFromIdToken(data.id_token)
+      };
+    } catch (error: any) {
+      const reason = error.response?.data?.error || error.message;
+      logger.error(`OAuth token request to ${provider} failed: ${reason}`);
+
+      const tokenError: any = new Error(`OAuth token request failed: ${reason}`);
+      // A revoked or expired grant needs the user to re-authorize, like a bad password
+      if (reason === 'invalid_grant') {
+        tokenError.source = 'authentication';
+      }
+      throw tokenError;
+    }
+  }
+
+  // The ID token comes straight from the token endpoint over TLS, so its claims are only decoded
+  private getEmailFromIdToken(idToken?: string): string | null {
+    if (!idToken) return null;
+
+    try {
+      const payload = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf8'));
+      return payload.email || payload.preferred_username || null;
+    } catch (error) {
+      logger.warn('Failed to decode OAuth ID token');
+      return null;
+    }
+  }
+
+  private prunePending(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pending) {
+      if (pending.expiresAt < now) {
+        this.pending.delete(state);
+      }
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import { DatabaseService } from './DatabaseService';
+import { ElasticsearchService, EmailDocument } from './ElasticsearchService';
+import { VectorDBService } from './VectorDBService';
+import { logger } from '../utils/logger';
+import { EMAIL_DOCUMENT_SELECT, toEmailDocument } from '../utils/emailDocument';
+
+export type OutboxTarget = 'elasticsearch' | 'vector';
+export type OutboxOperation = 'index' | 'delete';
+export type OutboxStatus = 'pending' | 'processing' | 'failed';
+
+export const OUTBOX_TARGETS: OutboxTarget[] = ['elasticsearch', 'vector'];
+
+// A pool or a client inside an open transaction
+export interface Queryable {
+  query(text: string, params?: any[]): Promise<any>;
+}
+
+export interface OutboxEntry {
+  id: number;
+  emailId: string;
+  target: OutboxTarget;
+  operation: OutboxOperation;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+}
+
+export interface OutboxReport {
+  counts: Array<{ target: OutboxTarget; status: OutboxStatus; count: number; oldestAt: string }>;
+  stuck: OutboxEntry[];
+}
+
+/**
+ * Carries email changes from Postgres to Elasticsearch and Chroma. Entries are
+ * written in the same transaction as the `emails` change and applied here
+ * with retries.
+ *
+ * An entry only names the email: applying it brings the store in line with
+ * the email's current row, indexing it if it exists and deleting it if not.
+ * That makes entries safe to apply twice or out of order.
+ */
+export class OutboxService {
+  private databaseService: DatabaseService;
+  private elasticsearchService: ElasticsearchService;
+  private vectorDBService: VectorDBService;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private run: Promise<void> | null = null;
+  private rerun: boolean = false;
+
+  constructor(databaseService: DatabaseService, elasticsearchService: ElasticsearchService, vectorDBService: VectorDBService) {
+    this.databaseService = databaseService;
+    this.elasticsearchService = elasticsearchService;
+    this.vectorDBService = vectorDBService;
+  }
+
+  /**
+   * Record that emails changed, one entry per search store. Pass the
+   * transaction client that changed them so both commit together.
+   */
+  async enqueue(client: Queryable, emailIds: string | string[], operation: OutboxOperation): Promise<void> {
+    const ids = Array.isArray(emailIds) ? emailIds : [emailIds];
+    if (ids.length === 0) {
+      return;
+    }
+
+    await client.query(`
+      INSERT INTO email_outbox (email_id, target, operation)
+      SELECT email_id, target, $2
+      FROM unnest($1::uuid[]) WITH ORDINALITY AS emails(email_id, position)
+      CROSS JOIN unnest($3::text[]) AS target
+      ORDER BY position
+    `, [ids, operation, OUTBOX_TARGETS]);
+  }
+
+  start(): void {
+    const intervalSeconds = parseInt(process.env.OUTBOX_POLL_INTERVAL_SECONDS || '10');
+
+    this.pollInterval = setInterval(() => this.dispatchSoon(), intervalSeconds * 1000);
+    this.dispatchSoon();
+    logger.info(`Outbox dispatcher started, polling every ${intervalSeconds} seconds`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    await this.run;
+  }
+
+  // Apply pending entries in the background, e.g. right after a commit
+  dispatchSoon(): void {
+    this.dispatch().catch((error) => {
+      logger.error('Failed to dispatch outbox entries:', error);
+    });
+  }
+
+  async dispatch(): Promise<void> {
+    if (this.run) {
+      this.rerun = true;
+      return this.run;
+    }
+
+    this.run = (async () => {
+      do {
+        this.rerun = false;
+        while (await this.dispatchBatch() > 0) {
+          // keep going until nothing is due
+        }
+      } while (this.rerun);
+    })().finally(() => {
+      this.run = null;
+    });
+    return this.run;
+  }
+
+  async getReport(limit: number = 100): Promise<OutboxReport> {
+    const stuckAfterMinutes = parseInt(process.env.OUTBOX_STUCK_AFTER_MINUTES || '5');
+
+    const counts = await this.databaseService.query(`
+      SELECT target, status, COUNT(*)::int AS count, MIN(created_at) AS oldest_at
+      FROM email_outbox
+      GROUP BY target, status
+      ORDER BY target, status
+    `);
+
+    // Failed for good, retrying, or waiting longer than a dispatch should take
+    const stuck = await this.databaseService.query(`
+      SELECT * FROM email_outbox
+      WHERE status = 'failed'
+        OR attempts > 0
+        OR created_at < CURRENT_TIMESTAMP - make_interval(mins => $1::int)
+      ORDER BY id
+      LIMIT $2
+    `, [stuckAfterMinutes, limit]);
+
+    return {
+      counts: counts.rows.map((row: any) => ({
+        target: row.target,
+        status: row.status,
+        count: row.count,
+        oldestAt: row.oldest_at
+      })),
+      stuck: stuck.rows.map((row: any) => this.mapEntryRow(row))
+    };
+  }
+
+  private async dispatchBatch(): Promise<number> {
+    const batchSize = parseInt(process.env.OUTBOX_BATCH_SIZE || '100');
+    const lockTimeoutSeconds = parseInt(process.env.OUTBOX_LOCK_TIMEOUT_SECONDS || '300');
+
+    // Entries left in processing by a dispatcher that died are claimed again after the lock timeout
+    const claimed = await this.databaseService.query(`
+      UPDATE email_outbox
+      SET status = 'processing', locked_at = CURRENT_TIMESTAMP
+      WHERE id IN (
+        SELECT id FROM email_outbox
+        WHERE (status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP)
+          OR (status = 'processing' AND locked_at < CURRENT_TIMESTAMP - make_interval(secs => $2::int))
+        ORDER BY id
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `, [batchSize, lockTimeoutSeconds]);
+
+    const entries = claimed.rows.sort((a: any, b: any) => Number(a.id) - Number(b.id));
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const emails = await this.loadEmails(Array.from(new Set<string>(entries.map((entry: any) => entry.email_id))));
+
+    // Entries for the same email and store all resolve to the same state; apply it once
+    const applied = new Map<string, Promise<void>>();
+    for (const entry of entries) {
+      const key = `${entry.target}:${entry.email_id}`;
+      if (!applied.has(key)) {
+        applied.set(key, this.applyEntry(entry, emails.get(entry.email_id) || null));
+      }
+
+      try {
+        await applied.get(key);
+        await this.databaseService.query('DELETE FROM email_outbox WHERE id = $1', [entry.id]);
+      } catch (error: any) {
+        await this.recordFailure(entry, error);
+      }
+    }
+
+    return entries.length;
+  }
+
+  private async applyEntry(entry: any, email: EmailDocument | null): Promise<void> {
+    switch (entry.target as OutboxTarget) {
+      case 'elasticsearch':
+        if (email) {
+          await this.elasticsearchService.indexEmail(email);
+        } else {
+          await this.elasticsearchService.deleteEmail(entry.email_id);
+        }
+        break;
+      case 'vector':
+        if (email) {
+          await this.vectorDBService.storeEmail(email);
+        } else {
+          await this.vectorDBService.deleteEmail(entry.email_id);
+        }
+        break;
+      default: {
+        const error: any = new Error(`Unknown outbox target: ${entry.target}`);
+        error.permanent = true;
+        throw error;
+      }
+    }
+  }
+
+  private async recordFailure(entry: any, error: any): Promise<void> {
+    const maxAttempts = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10');
+    const attempts = entry.attempts + 1;
+    const failed = error?.permanent || attempts >= maxAttempts;
+    // 1, 2, 4 ... minutes, capped at an hour
+    const delayMinutes = Math.min(Math.pow(2, attempts - 1), 60);
+
+    await this.databaseService.query(`
+      UPDATE email_outbox
+      SET attempts = $1, last_error = $2, status = $3, locked_at = NULL,
+          next_attempt_at = CURRENT_TIMESTAMP + make_interval(mins => $4::int)
+      WHERE id = $5
+    `, [attempts, error?.message || String(error), failed ? 'failed' : 'pending', delayMinutes, entry.id]);
+
+    logger.error(`Failed to apply ${entry.operation} of email ${entry.email_id} to ${entry.target} (attempt ${attempts}):`, error);
+  }
+
+  private async loadEmails(ids: string[]): Promise<Map<string, EmailDocument>> {
+    const result = await this.databaseService.query(`
+      ${EMAIL_DOCUMENT_SELECT}
+      WHERE e.public_id = ANY($1::uuid[])
+    `, [ids]);
+
+    return new Map(result.rows.map((row: any) => [row.public_id, toEmailDocument(row)]));
+  }
+
+  private mapEntryRow(row: any): OutboxEntry {
+    return {
+      id: Number(row.id),
+      emailId: row.email_id,
+      target: row.target,
+      operation: row.operation,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      nextAttemptAt: row.next_attempt_at,
+      createdAt: row.created_at
+    };
+  }
+}
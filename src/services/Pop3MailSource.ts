@@ -0,0 +1,233 @@
+import { DatabaseService } from './DatabaseService';
+import { ConnectionTestResult, IMAPAccount, MailFolder } from './EmailSyncService';
+import { ConnectionStatus, isAuthenticationError } from './ImapConnectionManager';
+import { MailSource } from './MailSource';
+import { logger } from '../utils/logger';
+import { classifyConnectionError } from '../utils/imapProbe';
+import { Pop3Client, Pop3Message } from '../utils/pop3Client';
+
+export interface Pop3Handlers {
+  // Run a retrieved message through the sync pipeline; false when the account already had it
+  onMessage(account: IMAPAccount, raw: Buffer): Promise<boolean>;
+  onStatusChange(accountId: number, status: ConnectionStatus, error?: string): void;
+  onSynced(accountId: number): Promise<void>;
+}
+
+// POP3 only has the one mailbox
+export const POP3_INBOX: MailFolder = {
+  path: 'INBOX',
+  delimiter: '/',
+  role: 'inbox',
+  attributes: [],
+  isSelectable: true
+};
+
+/**
+ * POP3 accounts, polled every POP3_POLL_INTERVAL_SECONDS. The UIDL of every
+ * retrieved message is recorded so mail left on the server is only fetched
+ * once; with `leaveOnServer` off, messages are deleted once stored.
+ */
+export class Pop3MailSource implements MailSource {
+  private databaseService: DatabaseService;
+  private handlers: Pop3Handlers;
+  private pollIntervalMs: number;
+  private timeoutMs: number;
+  private accounts: Map<number, IMAPAccount> = new Map();
+  private timers: Map<number, NodeJS.Timeout> = new Map();
+  private polls: Map<number, Promise<void>> = new Map();
+  private connected: Set<number> = new Set();
+
+  constructor(databaseService: DatabaseService, handlers: Pop3Handlers) {
+    this.databaseService = databaseService;
+    this.handlers = handlers;
+    this.pollIntervalMs = parseInt(process.env.POP3_POLL_INTERVAL_SECONDS || '120') * 1000;
+    this.timeoutMs = parseInt(process.env.POP3_TIMEOUT_SECONDS || '30') * 1000;
+  }
+
+  watch(account: IMAPAccount): void {
+    this.unwatch(account.id);
+    this.accounts.set(account.id, account);
+
+    const poll = () => {
+      const current = this.accounts.get(account.id);
+      if (!current) return;
+      this.sync(current).catch((error) => {
+        logger.error(`POP3 poll failed for account ${current.name}:`, error);
+      });
+    };
+    this.timers.set(account.id, setInterval(poll, this.pollIntervalMs));
+    poll();
+  }
+
+  unwatch(accountId: number): void {
+    const timer = this.timers.get(accountId);
+    if (timer) {
+      clearInterval(timer);
+      this.timers.delete(accountId);
+    }
+    this.accounts.delete(accountId);
+    this.connected.delete(accountId);
+  }
+
+  stopAll(): void {
+    for (const accountId of Array.from(this.timers.keys())) {
+      this.unwatch(accountId);
+    }
+  }
+
+  isConnected(accountId: number): boolean {
+    return this.connected.has(accountId);
+  }
+
+  // One poll per account at a time; a poll requested meanwhile joins the running one
+  sync(account: IMAPAccount): Promise<void> {
+    const running = this.polls.get(account.id);
+    if (running) return running;
+
+    const poll = this.poll(account).finally(() => {
+      this.polls.delete(account.id);
+    });
+    this.polls.set(account.id, poll);
+    return poll;
+  }
+
+  /**
+   * Check account settings without saving them: reach the server, log in
+   * and list the mailbox.
+   */
+  async testConnection(account: IMAPAccount): Promise<ConnectionTestResult> {
+    const startedAt = Date.now();
+    const result: ConnectionTestResult = {
+      ok: false,
+      capabilities: { idle: false, condstore: false, move: false, xoauth2: false },
+      rawCapabilities: [],
+      folders: [],
+      durationMs: 0
+    };
+
+    const fail = (stage: ConnectionTestResult['stage'], error: any): ConnectionTestResult => {
+      result.stage = stage;
+      result.error = { type: classifyConnectionError(error), message: error?.message || String(error), code: error?.code };
+      result.durationMs = Date.now() - startedAt;
+      logger.info(`POP3 connection test for ${account.host} failed at ${stage}: ${result.error.type}`);
+      return result;
+    };
+
+    const client = this.createClient(account);
+    try {
+      try {
+        result.rawCapabilities = await client.connect();
+      } catch (error) {
+        return fail('connect', error);
+      }
+
+      try {
+        await client.login(account.username, account.password || '');
+      } catch (error) {
+        return fail('login', error);
+      }
+
+      try {
+        await this.listMessages(client);
+        await client.quit();
+      } catch (error) {
+        return fail('list', error);
+      }
+    } finally {
+      client.close();
+    }
+
+    result.ok = true;
+    result.folders = [POP3_INBOX];
+    result.durationMs = Date.now() - startedAt;
+    return result;
+  }
+
+  private createClient(account: IMAPAccount): Pop3Client {
+    return new Pop3Client({ host: account.host, port: account.port, secure: account.secure, timeoutMs: this.timeoutMs });
+  }
+
+  private async poll(account: IMAPAccount): Promise<void> {
+    const client = this.createClient(account);
+
+    try {
+      await client.connect();
+      await client.login(account.username, account.password || '');
+    } catch (error: any) {
+      client.close();
+      this.connected.delete(account.id);
+      if (isAuthenticationError(error)) {
+        this.unwatch(account.id);
+        this.handlers.onStatusChange(account.id, 'auth_failed', error.message);
+        return;
+      }
+      this.handlers.onStatusChange(account.id, 'reconnecting', error?.message || String(error));
+      throw error;
+    }
+
+    if (!this.connected.has(account.id)) {
+      this.connected.add(account.id);
+      this.handlers.onStatusChange(account.id, 'connected');
+    }
+
+    let retrieved = 0;
+    let failed = 0;
+    try {
+      const messages = await this.listMessages(client);
+      const known = await this.getRetrievedUidls(account.id);
+      const deleted = new Set<string>();
+
+      for (const message of messages) {
+        if (!known.has(message.uidl)) {
+          try {
+            const raw = await client.retrieve(message.number);
+            await this.handlers.onMessage(account, raw);
+          } catch (error) {
+            // Not recorded, so the next poll tries it again
+            failed++;
+            logger.error(`Failed to retrieve POP3 message ${message.uidl} for account ${account.name}:`, error);
+            continue;
+          }
+          await this.databaseService.query(`
+            INSERT INTO pop3_retrieved (account_id, uidl) VALUES ($1, $2) ON CONFLICT DO NOTHING
+          `, [account.id, message.uidl]);
+          retrieved++;
+        }
+
+        if (!account.leaveOnServer) {
+          await client.delete(message.number);
+          deleted.add(message.uidl);
+        }
+      }
+
+      // Deletions are committed by QUIT; UIDLs of messages gone from the server are forgotten only after it
+      await client.quit();
+      await this.databaseService.query(`
+        DELETE FROM pop3_retrieved WHERE account_id = $1 AND NOT (uidl = ANY($2))
+      `, [account.id, messages.map(message => message.uidl).filter(uidl => !deleted.has(uidl))]);
+    } finally {
+      client.close();
+    }
+
+    if (retrieved > 0 || failed > 0) {
+      logger.info(`Retrieved ${retrieved} POP3 messages for account ${account.name}${failed > 0 ? `, ${failed} failed` : ''}`);
+    }
+    await this.handlers.onSynced(account.id);
+  }
+
+  private async listMessages(client: Pop3Client): Promise<Pop3Message[]> {
+    try {
+      return await client.listUidls();
+    } catch (error: any) {
+      if (error.pop3Status) {
+        throw new Error('The POP3 server does not support UIDL, which is needed to tell retrieved messages apart');
+      }
+      throw error;
+    }
+  }
+
+  private async getRetrievedUidls(accountId: number): Promise<Set<string>> {
+    const result = await this.databaseService.query('SELECT uidl FROM pop3_retrieved WHERE account_id = $1', [accountId]);
+    return new Set(result.rows.map((row: any) => row.uidl));
+  }
+}
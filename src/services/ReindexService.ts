@@ -0,0 +1,183 @@
+import { DatabaseService } from './DatabaseService';
+import { ElasticsearchService, EMAIL_INDEX_VERSION } from './ElasticsearchService';
+import { logger } from '../utils/logger';
+import { EMAIL_DOCUMENT_SELECT, toEmailDocument } from '../utils/emailDocument';
+
+export type ReindexStatus = 'idle' | 'running' | 'completed' | 'failed';
+export type ReindexPhase = 'copying' | 'catching-up' | 'swapping' | 'cleaning-up';
+
+export interface ReindexProgress {
+  status: ReindexStatus;
+  phase: ReindexPhase | null;
+  version: number;
+  index: string | null;
+  previousIndices: string[];
+  total: number;
+  indexed: number;
+  // Emails changed while copying, indexed again before and after the swap
+  caughtUp: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+export interface ReindexOptions {
+  // Leave the indices the alias pointed to before, e.g. to roll back by hand
+  keepOldIndices?: boolean;
+  onProgress?: (progress: ReindexProgress) => void;
+}
+
+// Changes committed this long after their transaction began are still caught up
+const CATCH_UP_MARGIN = '1 minute';
+
+/**
+ * Rebuilds the Elasticsearch index from Postgres into a new versioned index
+ * and swaps the alias over to it, so searches keep working throughout.
+ * Emails changed while copying are copied again before and after the swap.
+ */
+export class ReindexService {
+  private databaseService: DatabaseService;
+  private elasticsearchService: ElasticsearchService;
+  private progress: ReindexProgress = ReindexService.initialProgress();
+
+  constructor(databaseService: DatabaseService, elasticsearchService: ElasticsearchService) {
+    this.databaseService = databaseService;
+    this.elasticsearchService = elasticsearchService;
+  }
+
+  getProgress(): ReindexProgress {
+    return { ...this.progress };
+  }
+
+  isRunning(): boolean {
+    return this.progress.status === 'running';
+  }
+
+  async reindex(options: ReindexOptions = {}): Promise<ReindexProgress> {
+    if (this.isRunning()) {
+      throw new Error('A reindex is already running');
+    }
+
+    const batchSize = parseInt(process.env.REINDEX_BATCH_SIZE || '500');
+    const report = (changes: Partial<ReindexProgress>) => {
+      Object.assign(this.progress, changes);
+      options.onProgress?.(this.getProgress());
+    };
+
+    this.progress = {
+      ...ReindexService.initialProgress(),
+      status: 'running',
+      phase: 'copying',
+      startedAt: new Date().toISOString()
+    };
+
+    let swapped = false;
+    try {
+      const copyStartedAt = await this.getCatchUpTime();
+      const total = await this.databaseService.query('SELECT COUNT(*)::int AS count FROM emails');
+      const index = await this.elasticsearchService.createVersionedIndex({ bulkLoad: true });
+      report({ index, total: total.rows[0].count });
+      logger.info(`Reindexing ${this.progress.total} emails into '${index}'`);
+
+      const copied = new Set<string>();
+      await this.copyEmails(index, null, batchSize, copied, (count) => report({ indexed: this.progress.indexed + count }));
+
+      report({ phase: 'catching-up' });
+      const catchUpStartedAt = await this.getCatchUpTime();
+      await this.copyEmails(index, copyStartedAt, batchSize, copied, (count) => report({ caughtUp: this.progress.caughtUp + count }));
+      await this.elasticsearchService.finishBulkLoad(index);
+
+      report({ phase: 'swapping' });
+      const previousIndices = await this.elasticsearchService.swapAlias(index);
+      swapped = true;
+      report({ previousIndices });
+
+      // Writes between the catch-up and the swap went to the old index
+      report({ phase: 'cleaning-up' });
+      await this.copyEmails(index, catchUpStartedAt, batchSize, copied, (count) => report({ caughtUp: this.progress.caughtUp + count }));
+      await this.removeDeletedEmails(copied);
+
+      if (!options.keepOldIndices) {
+        for (const previous of previousIndices) {
+          await this.elasticsearchService.deleteIndex(previous);
+        }
+      }
+
+      report({ status: 'completed', phase: null, finishedAt: new Date().toISOString() });
+      logger.info(`Reindex into '${index}' completed: ${this.progress.indexed} emails, ${this.progress.caughtUp} caught up`);
+    } catch (error: any) {
+      // Until the swap the new index is unused and can go
+      if (!swapped && this.progress.index) {
+        await this.elasticsearchService.deleteIndex(this.progress.index).catch(() => undefined);
+      }
+      report({ status: 'failed', finishedAt: new Date().toISOString(), error: error?.message || String(error) });
+      logger.error('Reindex failed:', error);
+      throw error;
+    }
+
+    return this.getProgress();
+  }
+
+  private async getCatchUpTime(): Promise<Date> {
+    const result = await this.databaseService.query(`SELECT LOCALTIMESTAMP - interval '${CATCH_UP_MARGIN}' AS at`);
+    return result.rows[0].at;
+  }
+
+  // Copy emails, all of them or those updated since `since`, in id order
+  private async copyEmails(
+    index: string,
+    since: Date | null,
+    batchSize: number,
+    copied: Set<string>,
+    onBatch: (count: number) => void
+  ): Promise<void> {
+    let lastId = 0;
+
+    for (;;) {
+      const result = await this.databaseService.query(`
+        ${EMAIL_DOCUMENT_SELECT}
+        WHERE e.id > $1 AND ($2::timestamp IS NULL OR e.updated_at >= $2)
+        ORDER BY e.id
+        LIMIT $3
+      `, [lastId, since, batchSize]);
+
+      if (result.rows.length === 0) {
+        return;
+      }
+
+      await this.elasticsearchService.bulkIndexEmails(result.rows.map(toEmailDocument), index);
+      result.rows.forEach((row: any) => copied.add(row.public_id));
+      lastId = result.rows[result.rows.length - 1].id;
+      onBatch(result.rows.length);
+    }
+  }
+
+  // Emails deleted after being copied would otherwise linger in the new index
+  private async removeDeletedEmails(copied: Set<string>): Promise<void> {
+    const existing = new Set<string>(
+      (await this.databaseService.query('SELECT public_id FROM emails')).rows.map((row: any) => row.public_id)
+    );
+
+    for (const id of Array.from(copied)) {
+      if (!existing.has(id)) {
+        await this.elasticsearchService.deleteEmail(id);
+      }
+    }
+  }
+
+  private static initialProgress(): ReindexProgress {
+    return {
+      status: 'idle',
+      phase: null,
+      version: EMAIL_INDEX_VERSION,
+      index: null,
+      previousIndices: [],
+      total: 0,
+      indexed: 0,
+      caughtUp: 0,
+      startedAt: null,
+      finishedAt: null,
+      error: null
+    };
+  }
+}
@@ -0,0 +1,392 @@
+import { randomUUID } from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import Mail from 'nodemailer/lib/mailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { simpleParser } from 'mailparser';
+import { DatabaseService } from './DatabaseService';
+import { EmailDocument } from './ElasticsearchService';
+import { EmailSyncService, IMAPAccount } from './EmailSyncService';
+import { BlobStore } from './BlobStore';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { EMAIL_DOCUMENT_SELECT, toEmailDocument } from '../utils/emailDocument';
+import { computeEmailId, isContentHashId } from '../utils/emailIdentity';
+
+export type ReplyMode = 'reply' | 'reply-all' | 'forward';
+
+export interface ComposeRequest {
+  text?: string;
+  html?: string;
+  // Added to the recipients taken from the original; forwards need at least one
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  // Quote the original below the new text (default true)
+  quote?: boolean;
+}
+
+export interface OutgoingMessage {
+  account: IMAPAccount;
+  mode: ReplyMode;
+  // Public id of the email being answered or forwarded
+  originalId: string;
+  messageId: string;
+  subject: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  envelope: { from: string; to: string[] };
+  // What goes over SMTP, without the Bcc header
+  raw: Buffer;
+  // What is filed in Sent and indexed, with the Bcc header
+  copy: Buffer;
+}
+
+export interface SentEmail {
+  // Public id of the stored sent copy
+  id: string;
+  messageId: string;
+  threadId: number | null;
+  subject: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  // Folder the copy was appended to on the server, null when it wasn't
+  sentFolder: string | null;
+}
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+// Addresses in order, without case-insensitive duplicates or any of `exclude`
+const uniqueAddresses = (addresses: string[], exclude: string[] = []): string[] => {
+  const seen = new Set(exclude.map(address => address.toLowerCase()));
+  const unique: string[] = [];
+  for (const address of addresses) {
+    const key = address.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    unique.push(address.trim());
+  }
+  return unique;
+};
+
+const formatSender = (email: EmailDocument): string => {
+  return email.fromName ? `${email.fromName} <${email.fromEmail}>` : email.fromEmail;
+};
+
+/**
+ * Replies, reply-alls and forwards of stored emails, sent over the account's
+ * SMTP server. The sent message is appended to the account's Sent folder and
+ * indexed right away, so it shows up in the original's conversation before
+ * the next sync. With SMTP_CATCHER_URL set, every message goes to that local
+ * catcher instead and nothing is appended on the server.
+ */
+export class SmtpService {
+  private databaseService: DatabaseService;
+  private emailSyncService: EmailSyncService;
+  private blobStore: BlobStore;
+  private catcherUrl: string | null;
+  private timeoutMs: number;
+
+  constructor(databaseService: DatabaseService, emailSyncService: EmailSyncService, blobStore: BlobStore) {
+    this.databaseService = databaseService;
+    this.emailSyncService = emailSyncService;
+    this.blobStore = blobStore;
+    this.catcherUrl = process.env.SMTP_CATCHER_URL || null;
+    this.timeoutMs = parseInt(process.env.SMTP_TIMEOUT_SECONDS || '30') * 1000;
+  }
+
+  /**
+   * Build the reply or forward of a stored email. Returns null when the email
+   * doesn't exist. Throws a 409 when its account can't send or an attachment
+   * to forward is missing, and a 400 when there is no one to send to.
+   */
+  async compose(emailId: string, mode: ReplyMode, request: ComposeRequest): Promise<OutgoingMessage | null> {
+    const result = await this.databaseService.query(`${EMAIL_DOCUMENT_SELECT} WHERE e.public_id = $1`, [emailId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const original = toEmailDocument(result.rows[0]);
+
+    const account = original.accountId ? await this.emailSyncService.getSendingAccount(original.accountId) : null;
+    if (!account) {
+      throw createError('The account of this email is paused, disabled or cannot send mail', 409);
+    }
+    if (!account.smtp && !this.catcherUrl) {
+      throw createError(`Account ${account.name} has no SMTP settings`, 409);
+    }
+
+    const from = account.smtp?.from || account.username;
+    const { to, cc, bcc } = await this.resolveRecipients(original, mode, request, [from, account.username]);
+    if (to.length === 0) {
+      throw createError('The message has no recipients', 400);
+    }
+
+    // Forwards carry References too, so they stay in the conversation
+    const parentId = isContentHashId(original.messageId) ? null : original.messageId;
+    const references = [...(original.references || []), ...(parentId ? [parentId] : [])];
+    const messageId = `<${randomUUID()}@${from.split('@')[1] || 'localhost'}>`;
+    const subject = this.buildSubject(original.subject, mode);
+
+    const quote = request.quote ?? true;
+    const attachments = await this.loadAttachments(original, mode === 'forward' ? 'all' : quote && !!request.html ? 'inline' : 'none');
+
+    const mail: Mail.Options = {
+      from,
+      to,
+      cc,
+      bcc,
+      subject,
+      messageId,
+      date: new Date(),
+      inReplyTo: mode !== 'forward' && parentId ? parentId : undefined,
+      references: references.length > 0 ? references : undefined,
+      attachments,
+      ...this.buildBody(original, mode, request, quote)
+    };
+
+    const node = new MailComposer(mail).compile();
+    const envelope = node.getEnvelope();
+    const raw = await node.build();
+    node.keepBcc = true;
+    const copy = bcc.length > 0 ? await node.build() : raw;
+
+    return {
+      account,
+      mode,
+      originalId: original.id,
+      messageId,
+      subject,
+      to,
+      cc,
+      bcc,
+      envelope: { from: envelope.from || from, to: envelope.to },
+      raw,
+      copy
+    };
+  }
+
+  /**
+   * Send a composed message, then file and index the sent copy. Only the
+   * SMTP delivery can fail this; a copy that can't be appended or indexed is
+   * picked up by the next sync of the Sent folder.
+   */
+  async send(message: OutgoingMessage): Promise<SentEmail> {
+    const { account } = message;
+
+    const transport = this.createTransport(account);
+    try {
+      await transport.sendMail({ envelope: message.envelope, raw: message.raw });
+    } finally {
+      transport.close();
+    }
+    logger.info(`Sent ${message.mode} to email ${message.originalId} from account ${account.name}${this.catcherUrl ? ' (caught locally)' : ''}`);
+
+    // Caught messages never reached anyone, so the server's Sent folder stays untouched
+    const sentFolder = this.catcherUrl ? null : await this.appendToSent(message);
+
+    const id = computeEmailId(account.id, message.messageId);
+    let threadId: number | null = null;
+    try {
+      const folder = sentFolder || this.emailSyncService.getFolderPathByRole(account.id, 'sent') || 'Sent';
+      await this.emailSyncService.ingestRawMessage(message.copy, account, folder, ['\\Seen']);
+      const stored = await this.databaseService.query('SELECT thread_id FROM emails WHERE public_id = $1', [id]);
+      threadId = stored.rows[0]?.thread_id ?? null;
+    } catch (error) {
+      logger.error(`Failed to index sent message ${message.messageId}:`, error);
+    }
+
+    return {
+      id,
+      messageId: message.messageId,
+      threadId,
+      subject: message.subject,
+      to: message.to,
+      cc: message.cc,
+      bcc: message.bcc,
+      sentFolder
+    };
+  }
+
+  /**
+   * Reply to the Reply-To or sender; replying to a message we sent goes to
+   * its recipients instead. Reply-all copies everyone else on the original.
+   */
+  private async resolveRecipients(
+    original: EmailDocument,
+    mode: ReplyMode,
+    request: ComposeRequest,
+    ownAddresses: string[]
+  ): Promise<{ to: string[]; cc: string[]; bcc: string[] }> {
+    const isOwn = (address: string) => ownAddresses.some(own => own.toLowerCase() === address.toLowerCase());
+    let to: string[] = [];
+    let cc: string[] = [];
+
+    if (mode !== 'forward') {
+      if (isOwn(original.fromEmail)) {
+        to = original.toEmails;
+      } else {
+        const replyTo = await this.getReplyTo(original);
+        to = replyTo.length > 0 ? replyTo : [original.fromEmail];
+      }
+
+      if (mode === 'reply-all') {
+        cc = [...original.toEmails, ...original.ccEmails];
+      }
+    }
+
+    const uniqueTo = uniqueAddresses([...to, ...(request.to || [])]);
+    const uniqueCc = uniqueAddresses([...cc, ...(request.cc || [])], [...uniqueTo, ...ownAddresses]);
+    const uniqueBcc = uniqueAddresses(request.bcc || [], [...uniqueTo, ...uniqueCc]);
+    return { to: uniqueTo, cc: uniqueCc, bcc: uniqueBcc };
+  }
+
+  // Reply-To is not stored, so it comes from the raw message when we have it
+  private async getReplyTo(original: EmailDocument): Promise<string[]> {
+    const raw = original.rawBlobId ? await this.blobStore.get(original.rawBlobId) : null;
+    if (!raw) {
+      return [];
+    }
+
+    const parsed = await simpleParser(raw);
+    const replyTo = parsed.replyTo?.value || [];
+    return replyTo.map(address => address.address).filter((address): address is string => !!address);
+  }
+
+  private buildSubject(subject: string, mode: ReplyMode): string {
+    const [prefix, pattern] = mode === 'forward' ? ['Fwd:', /^\s*fwd?:/i] : ['Re:', /^\s*re:/i];
+    return pattern.test(subject) ? subject : `${prefix} ${subject}`.trim();
+  }
+
+  /**
+   * The new text with the original below it: quoted with "> " and an
+   * attribution line for replies, under a forwarded-message header for
+   * forwards. Only the parts the request has are built.
+   */
+  private buildBody(original: EmailDocument, mode: ReplyMode, request: ComposeRequest, quote: boolean): { text?: string; html?: string } {
+    if (!quote) {
+      return { text: request.text, html: request.html };
+    }
+
+    const date = new Date(original.date).toUTCString();
+    const header = mode === 'forward'
+      ? [
+        '---------- Forwarded message ---------',
+        `From: ${formatSender(original)}`,
+        `Date: ${date}`,
+        `Subject: ${original.subject}`,
+        `To: ${original.toEmails.join(', ')}`,
+        ...(original.ccEmails.length > 0 ? [`Cc: ${original.ccEmails.join(', ')}`] : [])
+      ]
+      : [`On ${date}, ${formatSender(original)} wrote:`];
+
+    const body: { text?: string; html?: string } = {};
+
+    if (request.text !== undefined) {
+      const quoted = mode === 'forward'
+        ? original.bodyText
+        : original.bodyText.split(/\r?\n/).map(line => `> ${line}`).join('\n');
+      body.text = `${request.text}\n\n${header.join('\n')}\n${mode === 'forward' ? '\n' : ''}${quoted}`;
+    }
+
+    if (request.html !== undefined) {
+      const originalHtml = original.bodyHtml || `<div>${escapeHtml(original.bodyText).replace(/\r?\n/g, '<br>')}</div>`;
+      const headerHtml = `<div>${header.map(escapeHtml).join('<br>')}</div>`;
+      body.html = mode === 'forward'
+        ? `${request.html}<br><br>${headerHtml}<br>${originalHtml}`
+        : `${request.html}<br><br>${headerHtml}<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${originalHtml}</blockquote>`;
+    }
+
+    return body;
+  }
+
+  /**
+   * Forwards carry every attachment. A quoted HTML reply only needs the
+   * inline images its cid: links point to.
+   */
+  private async loadAttachments(original: EmailDocument, which: 'all' | 'inline' | 'none'): Promise<Mail.Attachment[]> {
+    const attachments: Mail.Attachment[] = [];
+    if (which === 'none') {
+      return attachments;
+    }
+
+    for (const attachment of original.attachments) {
+      const isInlineImage = attachment.inline && !!attachment.cid;
+      if (which === 'inline' && !isInlineImage) continue;
+
+      const content = attachment.blobId ? await this.blobStore.get(attachment.blobId) : null;
+      if (!content) {
+        if (which === 'all') {
+          throw createError(`Attachment ${attachment.filename} is not stored, so the email can't be forwarded`, 409);
+        }
+        continue;
+      }
+
+      attachments.push({
+        filename: attachment.filename,
+        content,
+        contentType: attachment.contentType,
+        cid: isInlineImage ? attachment.cid : undefined,
+        contentDisposition: isInlineImage ? 'inline' : 'attachment'
+      });
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Gmail files mail sent through its SMTP server on its own and POP3 has no
+   * folders, so only other IMAP accounts get the copy appended.
+   */
+  private async appendToSent(message: OutgoingMessage): Promise<string | null> {
+    const { account } = message;
+    if (account.accountType === 'pop3' || account.gmailAllMail) {
+      return null;
+    }
+
+    const folder = this.emailSyncService.getFolderPathByRole(account.id, 'sent');
+    if (!folder) {
+      logger.warn(`Account ${account.name} has no Sent folder, the sent message is only stored locally`);
+      return null;
+    }
+
+    try {
+      await this.emailSyncService.appendMessage(account.id, folder, message.copy, ['\\Seen']);
+      return folder;
+    } catch (error) {
+      logger.error(`Failed to append sent message to ${folder} for account ${account.name}:`, error);
+      return null;
+    }
+  }
+
+  private createTransport(account: IMAPAccount): Transporter {
+    if (this.catcherUrl) {
+      return nodemailer.createTransport(this.catcherUrl);
+    }
+
+    const smtp = account.smtp!;
+    const user = smtp.username || account.username;
+    let auth: any;
+    if (smtp.password) {
+      auth = { user, pass: smtp.password };
+    } else if (account.authType === 'oauth2') {
+      auth = { type: 'OAuth2', user, accessToken: account.accessToken };
+    } else {
+      auth = { user, pass: account.password };
+    }
+
+    return nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth,
+      connectionTimeout: this.timeoutMs,
+      greetingTimeout: this.timeoutMs,
+      socketTimeout: this.timeoutMs,
+      // Same certificate policy as the IMAP connections
+      tls: { rejectUnauthorized: false }
+    });
+  }
+}
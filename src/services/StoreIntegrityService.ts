@@ -0,0 +1,461 @@
+import cron from 'node-cron';
+import { DatabaseService } from './DatabaseService';
+import { ElasticsearchService } from './ElasticsearchService';
+import { VectorDBService } from './VectorDBService';
+import { OutboxService } from './OutboxService';
+import { logger } from '../utils/logger';
+import { isEmailId } from '../utils/emailIdentity';
+
+export interface StoreDifference {
+  count: number;
+  sample: string[];
+}
+
+export interface StaleDifference extends StoreDifference {
+  // Number of documents disagreeing with Postgres on each field
+  fields: Record<string, number>;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  healthy: boolean;
+  counts: {
+    postgres: number;
+    elasticsearch: number;
+    vector: number;
+  };
+  // Emails with outbox entries still to apply; they are left out of the differences
+  inFlight: number;
+  // In Postgres but not in the search store
+  missingFromElasticsearch: StoreDifference;
+  missingFromVector: StoreDifference;
+  // In the search store without a Postgres row
+  orphanedInElasticsearch: StoreDifference;
+  orphanedInVector: StoreDifference;
+  // In both, with fields that no longer match Postgres
+  staleInElasticsearch: StaleDifference;
+  staleInVector: StaleDifference;
+}
+
+export interface ReconcileReport extends IntegrityReport {
+  // Outbox entries queued to repair the drift; null when only reporting
+  repaired: { reindexed: number; deleted: number } | null;
+}
+
+export type ReconcileStatus = 'idle' | 'running' | 'completed' | 'failed';
+// Postgres rows are checked against both stores, then each store is scanned for orphans
+export type ReconcilePhase = 'postgres' | 'elasticsearch' | 'vector';
+
+export interface ReconcileProgress {
+  status: ReconcileStatus;
+  phase: ReconcilePhase | null;
+  repair: boolean;
+  // Postgres rows and search documents compared so far
+  checked: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+  // Report of the last reconciliation that finished
+  report: ReconcileReport | null;
+}
+
+export interface RekeyResult {
+  elasticsearch: number;
+  vector: number;
+  unmatched: number;
+}
+
+const REKEY_BATCH_SIZE = 200;
+// Postgres rows or search documents compared at a time
+const COMPARE_PAGE_SIZE = 1000;
+
+// Search document field -> `emails` column it is copied from
+const ELASTICSEARCH_FIELDS: Record<string, string> = {
+  aiCategory: 'ai_category',
+  isRead: 'is_read',
+  isImportant: 'is_important',
+  folder: 'folder',
+  threadId: 'thread_id'
+};
+const VECTOR_FIELDS: Record<string, string> = {
+  aiCategory: 'ai_category',
+  folder: 'folder',
+  subject: 'subject'
+};
+
+const normalizeValue = (value: any): any => (value === undefined || value === '' ? null : value);
+
+// Every difference is counted, only the first `sampleSize` ids are kept
+const addDifference = (difference: StoreDifference, id: string, sampleSize: number): void => {
+  difference.count++;
+  if (difference.sample.length < sampleSize) {
+    difference.sample.push(id);
+  }
+};
+
+const initialProgress = (): ReconcileProgress => ({
+  status: 'idle',
+  phase: null,
+  repair: false,
+  checked: 0,
+  startedAt: null,
+  finishedAt: null,
+  error: null,
+  report: null
+});
+
+/**
+ * Compares and repairs the emails held by Postgres, Elasticsearch and
+ * Chroma. Postgres is the source of truth: every store keys an email by its
+ * `public_id`, and repairs reindex from Postgres through the outbox.
+ */
+export class StoreIntegrityService {
+  private databaseService: DatabaseService;
+  private elasticsearchService: ElasticsearchService;
+  private vectorDBService: VectorDBService;
+  private outboxService: OutboxService;
+  private schedule: cron.ScheduledTask | null = null;
+  private progress: ReconcileProgress = initialProgress();
+
+  constructor(
+    databaseService: DatabaseService,
+    elasticsearchService: ElasticsearchService,
+    vectorDBService: VectorDBService,
+    outboxService: OutboxService
+  ) {
+    this.databaseService = databaseService;
+    this.elasticsearchService = elasticsearchService;
+    this.vectorDBService = vectorDBService;
+    this.outboxService = outboxService;
+  }
+
+  async checkIntegrity(sampleSize: number = 50): Promise<IntegrityReport> {
+    const { repaired, ...report } = await this.compareStores(sampleSize, false);
+    return report;
+  }
+
+  getProgress(): ReconcileProgress {
+    return { ...this.progress };
+  }
+
+  isReconciling(): boolean {
+    return this.progress.status === 'running';
+  }
+
+  /**
+   * Report drift between the stores and, with `repair`, queue outbox entries
+   * that bring Elasticsearch and Chroma back in line with Postgres. Progress
+   * and the finished report are available from `getProgress`.
+   */
+  async reconcile(options: { repair?: boolean; sampleSize?: number } = {}): Promise<ReconcileReport> {
+    if (this.isReconciling()) {
+      throw new Error('A reconciliation is already running');
+    }
+
+    const repair = options.repair || false;
+    this.progress = {
+      ...initialProgress(),
+      status: 'running',
+      repair,
+      startedAt: new Date().toISOString(),
+      report: this.progress.report
+    };
+
+    try {
+      const report = await this.compareStores(options.sampleSize || 50, repair, (phase, checked) => {
+        Object.assign(this.progress, { phase, checked });
+      });
+      if (repair) {
+        this.outboxService.dispatchSoon();
+      }
+
+      logger.info(`Store reconciliation finished: ${JSON.stringify({
+        healthy: report.healthy,
+        missingFromElasticsearch: report.missingFromElasticsearch.count,
+        missingFromVector: report.missingFromVector.count,
+        orphanedInElasticsearch: report.orphanedInElasticsearch.count,
+        orphanedInVector: report.orphanedInVector.count,
+        staleInElasticsearch: report.staleInElasticsearch.count,
+        staleInVector: report.staleInVector.count,
+        repaired: report.repaired
+      })}`);
+
+      Object.assign(this.progress, { status: 'completed', phase: null, finishedAt: new Date().toISOString(), report });
+      return report;
+    } catch (error: any) {
+      Object.assign(this.progress, { status: 'failed', finishedAt: new Date().toISOString(), error: error?.message || String(error) });
+      logger.error('Store reconciliation failed:', error);
+      throw error;
+    }
+  }
+
+  // Run `reconcile` on RECONCILE_CRON; an empty expression disables the schedule
+  startSchedule(): void {
+    const expression = process.env.RECONCILE_CRON ?? '0 3 * * *';
+    if (!expression) {
+      return;
+    }
+    if (!cron.validate(expression)) {
+      logger.error(`Invalid RECONCILE_CRON expression "${expression}", scheduled reconciliation disabled`);
+      return;
+    }
+
+    const repair = process.env.RECONCILE_REPAIR === 'true';
+    this.schedule = cron.schedule(expression, () => {
+      if (this.isReconciling()) {
+        logger.warn('Skipping scheduled reconciliation, the previous one is still running');
+        return;
+      }
+      this.reconcile({ repair }).catch(() => undefined);
+    });
+    logger.info(`Scheduled store reconciliation "${expression}"${repair ? ' with repair' : ''}`);
+  }
+
+  stopSchedule(): void {
+    this.schedule?.stop();
+    this.schedule = null;
+  }
+
+  /**
+   * Compare the stores a page at a time, so memory stays flat however many
+   * emails there are: Postgres rows in id order are looked up in both search
+   * stores, then each store is scanned for documents without a row. Repairs
+   * are queued page by page.
+   */
+  private async compareStores(
+    sampleSize: number,
+    repair: boolean,
+    onProgress: (phase: ReconcilePhase, checked: number) => void = () => undefined
+  ): Promise<ReconcileReport> {
+    const difference = (): StoreDifference => ({ count: 0, sample: [] });
+    const report: ReconcileReport = {
+      checkedAt: new Date().toISOString(),
+      healthy: false,
+      counts: { postgres: 0, elasticsearch: 0, vector: 0 },
+      inFlight: 0,
+      missingFromElasticsearch: difference(),
+      missingFromVector: difference(),
+      orphanedInElasticsearch: difference(),
+      orphanedInVector: difference(),
+      staleInElasticsearch: { ...difference(), fields: {} },
+      staleInVector: { ...difference(), fields: {} },
+      repaired: repair ? { reindexed: 0, deleted: 0 } : null
+    };
+
+    // Changes still in the outbox would show up as drift until they are applied
+    const inFlight = await this.databaseService.query(`
+      SELECT COUNT(DISTINCT email_id)::int AS count FROM email_outbox WHERE status <> 'failed'
+    `);
+    report.inFlight = inFlight.rows[0].count;
+
+    let checked = 0;
+    const columns = Array.from(new Set([...Object.values(ELASTICSEARCH_FIELDS), ...Object.values(VECTOR_FIELDS)]));
+    let lastId = 0;
+
+    for (;;) {
+      const result = await this.databaseService.query(`
+        SELECT id, public_id, ${columns.join(', ')} FROM emails WHERE id > $1 ORDER BY id LIMIT $2
+      `, [lastId, COMPARE_PAGE_SIZE]);
+      if (result.rows.length === 0) break;
+      lastId = result.rows[result.rows.length - 1].id;
+
+      const ids: string[] = result.rows.map((row: any) => row.public_id);
+      const pending = await this.getInFlight(ids);
+      const elasticsearchDocs = new Map(
+        (await this.elasticsearchService.getEmailsByIds(ids, Object.keys(ELASTICSEARCH_FIELDS))).map(doc => [doc.id, doc.source])
+      );
+      const vectorDocs = new Map((await this.vectorDBService.getEmailsByIds(ids)).map(doc => [doc.id, doc.metadata]));
+
+      const reindex: string[] = [];
+      for (const row of result.rows) {
+        if (pending.has(row.public_id)) continue;
+        const drifted = [
+          this.checkDocument(row, elasticsearchDocs.get(row.public_id), ELASTICSEARCH_FIELDS,
+            report.missingFromElasticsearch, report.staleInElasticsearch, sampleSize),
+          this.checkDocument(row, vectorDocs.get(row.public_id), VECTOR_FIELDS,
+            report.missingFromVector, report.staleInVector, sampleSize)
+        ];
+        if (drifted.some(Boolean)) {
+          reindex.push(row.public_id);
+        }
+      }
+
+      report.counts.postgres += result.rows.length;
+      if (report.repaired && reindex.length > 0) {
+        await this.outboxService.enqueue(this.databaseService, reindex, 'index');
+        report.repaired.reindexed += reindex.length;
+      }
+      onProgress('postgres', checked += result.rows.length);
+    }
+
+    // An email orphaned in both stores is deleted from both by one outbox entry
+    const queuedDeletes = new Set<string>();
+    const findOrphans = async (ids: string[], orphaned: StoreDifference): Promise<void> => {
+      const existing = await this.getExistingIds(ids);
+      const pending = await this.getInFlight(ids);
+      const orphans = ids.filter(id => !existing.has(id) && !pending.has(id));
+      orphans.forEach(id => addDifference(orphaned, id, sampleSize));
+
+      const remove = orphans.filter(id => !queuedDeletes.has(id));
+      if (report.repaired && remove.length > 0) {
+        await this.outboxService.enqueue(this.databaseService, remove, 'delete');
+        remove.forEach(id => queuedDeletes.add(id));
+        report.repaired.deleted += remove.length;
+      }
+    };
+
+    await this.elasticsearchService.scanEmails(async (hits) => {
+      report.counts.elasticsearch += hits.length;
+      await findOrphans(hits.map(hit => hit.id), report.orphanedInElasticsearch);
+      onProgress('elasticsearch', checked += hits.length);
+    }, [], COMPARE_PAGE_SIZE);
+
+    await this.vectorDBService.scanEmails(async (docs) => {
+      report.counts.vector += docs.length;
+      await findOrphans(docs.map(doc => doc.id), report.orphanedInVector);
+      onProgress('vector', checked += docs.length);
+    }, COMPARE_PAGE_SIZE);
+
+    report.healthy = [
+      report.missingFromElasticsearch,
+      report.missingFromVector,
+      report.orphanedInElasticsearch,
+      report.orphanedInVector,
+      report.staleInElasticsearch,
+      report.staleInVector
+    ].every(entry => entry.count === 0);
+
+    return report;
+  }
+
+  // Record a missing or stale search document; true when the email needs reindexing
+  private checkDocument(
+    row: any,
+    source: any,
+    fields: Record<string, string>,
+    missing: StoreDifference,
+    stale: StaleDifference,
+    sampleSize: number
+  ): boolean {
+    if (!source) {
+      addDifference(missing, row.public_id, sampleSize);
+      return true;
+    }
+
+    const differing = Object.entries(fields)
+      .filter(([field, column]) => normalizeValue(source[field]) !== normalizeValue(row[column]))
+      .map(([field]) => field);
+    if (differing.length === 0) {
+      return false;
+    }
+
+    addDifference(stale, row.public_id, sampleSize);
+    differing.forEach((field) => {
+      stale.fields[field] = (stale.fields[field] || 0) + 1;
+    });
+    return true;
+  }
+
+  // Search document ids that are not email ids can't have a row
+  private async getExistingIds(ids: string[]): Promise<Set<string>> {
+    const result = await this.databaseService.query(`
+      SELECT public_id FROM emails WHERE public_id = ANY($1::uuid[])
+    `, [ids.filter(isEmailId)]);
+    return new Set(result.rows.map((row: any) => row.public_id));
+  }
+
+  private async getInFlight(ids: string[]): Promise<Set<string>> {
+    const result = await this.databaseService.query(`
+      SELECT DISTINCT email_id FROM email_outbox WHERE status <> 'failed' AND email_id = ANY($1::uuid[])
+    `, [ids.filter(isEmailId)]);
+    return new Set(result.rows.map((row: any) => row.email_id));
+  }
+
+  /**
+   * Move search documents indexed under an id other than the email's
+   * `public_id` (random UUIDs from before ids were unified) to the right id.
+   * Documents are matched to Postgres by account and Message-ID; ones
+   * without a match are left for the integrity report.
+   */
+  async rekeySearchStores(): Promise<RekeyResult> {
+    const rows = (await this.databaseService.query('SELECT public_id, account_id, message_id FROM emails')).rows;
+    const publicIds = new Set<string>(rows.map((row: any) => row.public_id));
+    const byMessage = new Map<string, string>(
+      rows.map((row: any) => [`${row.account_id ?? ''}:${row.message_id}`, row.public_id])
+    );
+    // Older vector metadata has no accountId; a Message-ID used by a single email is enough there
+    const byMessageOnly = new Map<string, string | null>();
+    for (const row of rows) {
+      byMessageOnly.set(row.message_id, byMessageOnly.has(row.message_id) ? null : row.public_id);
+    }
+
+    const planMoves = (docs: Array<{ id: string; accountId?: number; messageId?: string }>) => {
+      const moves: Array<{ oldId: string; newId: string }> = [];
+      let unmatched = 0;
+      for (const doc of docs) {
+        if (publicIds.has(doc.id)) continue;
+        const newId = doc.accountId === undefined
+          ? byMessageOnly.get(doc.messageId || '')
+          : byMessage.get(`${doc.accountId ?? ''}:${doc.messageId}`);
+        if (newId) {
+          moves.push({ oldId: doc.id, newId });
+        } else {
+          unmatched++;
+        }
+      }
+      return { moves, unmatched };
+    };
+
+    const elasticsearch = planMoves((await this.listElasticsearchEmails(['accountId', 'messageId'])).map(doc => ({
+      id: doc.id,
+      accountId: doc.source.accountId,
+      messageId: doc.source.messageId
+    })));
+    for (let i = 0; i < elasticsearch.moves.length; i += REKEY_BATCH_SIZE) {
+      await this.elasticsearchService.rekeyEmails(elasticsearch.moves.slice(i, i + REKEY_BATCH_SIZE));
+    }
+    logger.info(`Re-keyed ${elasticsearch.moves.length} Elasticsearch documents, ${elasticsearch.unmatched} without a Postgres row`);
+
+    const vectorDocs = await this.vectorDBService.listEmails();
+    const vector = planMoves(vectorDocs.map(doc => ({
+      id: doc.id,
+      accountId: doc.metadata.accountId,
+      messageId: doc.metadata.messageId
+    })));
+
+    // Several legacy documents may belong to one email; the first one wins
+    const taken = new Set(vectorDocs.map(doc => doc.id));
+    const moves: Array<{ oldId: string; newId: string }> = [];
+    const duplicates: string[] = [];
+    for (const move of vector.moves) {
+      if (taken.has(move.newId)) {
+        duplicates.push(move.oldId);
+      } else {
+        taken.add(move.newId);
+        moves.push(move);
+      }
+    }
+
+    for (let i = 0; i < moves.length; i += REKEY_BATCH_SIZE) {
+      await this.vectorDBService.rekeyEmails(moves.slice(i, i + REKEY_BATCH_SIZE));
+    }
+    for (const id of duplicates) {
+      await this.vectorDBService.deleteEmail(id);
+    }
+    logger.info(`Re-keyed ${moves.length} vector documents, removed ${duplicates.length} duplicates, ${vector.unmatched} without a Postgres row`);
+
+    return {
+      elasticsearch: elasticsearch.moves.length,
+      vector: moves.length,
+      unmatched: elasticsearch.unmatched + vector.unmatched
+    };
+  }
+
+  private async listElasticsearchEmails(fields: string[] = []): Promise<Array<{ id: string; source: any }>> {
+    const docs: Array<{ id: string; source: any }> = [];
+    await this.elasticsearchService.scanEmails(async (hits) => {
+      docs.push(...hits);
+    }, fields);
+    return docs;
+  }
+}
@@ -0,0 +1,404 @@
+import { DatabaseService } from './DatabaseService';
+import { EmailAttachment } from './ElasticsearchService';
+import { OutboxService } from './OutboxService';
+import { logger } from '../utils/logger';
+import { isReplySubject, normalizeSubject } from '../utils/threading';
+
+export interface ThreadableEmail {
+  accountId: number | null;
+  messageId: string;
+  subject: string;
+  date: string;
+  inReplyTo?: string;
+  references?: string[];
+  // X-GM-THRID; Gmail's own grouping replaces header matching
+  gmailThreadId?: string;
+}
+
+export interface ThreadSummary {
+  id: number;
+  accountId: number | null;
+  accountName: string | null;
+  subject: string;
+  participants: string[];
+  messageCount: number;
+  unreadCount: number;
+  hasAttachments: boolean;
+  firstMessageAt: string;
+  lastMessageAt: string;
+  latestEmailId: string;
+  latestFromName: string;
+  latestFromEmail: string;
+  snippet: string;
+  // Category of the latest message we received; our own replies don't change it
+  category: string | null;
+  categoryConfidence: number | null;
+}
+
+export interface ThreadMessage {
+  id: string;
+  messageId: string;
+  accountId: number | null;
+  folder: string;
+  folderRole: string | null;
+  subject: string;
+  fromEmail: string;
+  fromName: string;
+  toEmails: string[];
+  ccEmails: string[];
+  date: string;
+  bodyText: string;
+  bodyHtml: string;
+  attachments: EmailAttachment[];
+  labels: string[];
+  aiCategory: string;
+  aiConfidence: number;
+  isRead: boolean;
+  isImportant: boolean;
+}
+
+export interface ThreadDetail extends ThreadSummary {
+  messages: ThreadMessage[];
+}
+
+export interface ThreadFilters {
+  accountId?: number;
+  folder?: string;
+  category?: string;
+  search?: string;
+  isRead?: boolean;
+  page: number;
+  limit: number;
+}
+
+// Per-thread rollup; the category comes from the latest message not in a Sent folder
+const THREAD_SELECT = `
+  SELECT
+    t.id, t.account_id, ea.name AS account_name,
+    root.subject, stats.participants, stats.message_count, stats.unread_count, stats.has_attachments,
+    stats.first_message_at, stats.last_message_at,
+    latest.public_id AS latest_email_id, latest.from_name AS latest_from_name,
+    latest.from_email AS latest_from_email, LEFT(latest.body_text, 200) AS snippet,
+    cat.ai_category AS category, cat.ai_confidence AS category_confidence
+  FROM email_threads t
+  LEFT JOIN email_accounts ea ON ea.id = t.account_id
+  CROSS JOIN LATERAL (
+    SELECT
+      COUNT(*)::int AS message_count,
+      (COUNT(*) FILTER (WHERE NOT e.is_read))::int AS unread_count,
+      COALESCE(BOOL_OR(e.attachments IS NOT NULL AND e.attachments <> '[]'::jsonb), false) AS has_attachments,
+      MIN(e.date) AS first_message_at,
+      MAX(e.date) AS last_message_at,
+      ARRAY_REMOVE(ARRAY_AGG(DISTINCT e.from_email), NULL) AS participants
+    FROM emails e WHERE e.thread_id = t.id
+  ) stats
+  LEFT JOIN LATERAL (
+    SELECT e.subject FROM emails e WHERE e.thread_id = t.id ORDER BY e.date ASC LIMIT 1
+  ) root ON true
+  LEFT JOIN LATERAL (
+    SELECT e.public_id, e.from_name, e.from_email, e.body_text FROM emails e WHERE e.thread_id = t.id ORDER BY e.date DESC LIMIT 1
+  ) latest ON true
+  LEFT JOIN LATERAL (
+    SELECT e.ai_category, e.ai_confidence FROM emails e
+    WHERE e.thread_id = t.id
+    ORDER BY (e.folder_role IS NOT DISTINCT FROM 'sent'), e.date DESC
+    LIMIT 1
+  ) cat ON true
+  WHERE stats.message_count > 0
+`;
+
+export class ThreadingService {
+  private databaseService: DatabaseService;
+  private outboxService: OutboxService;
+
+  constructor(databaseService: DatabaseService, outboxService: OutboxService) {
+    this.databaseService = databaseService;
+    this.outboxService = outboxService;
+  }
+
+  /**
+   * Find or create the conversation an email belongs to. Parents are matched
+   * through In-Reply-To/References, replies that arrived before their parent
+   * are pulled in, and when headers are missing a reply subject is matched to
+   * a recent conversation with the same normalized subject. Gmail emails
+   * join the conversation of their Gmail thread id.
+   */
+  async assignThread(email: ThreadableEmail): Promise<number> {
+    if (email.gmailThreadId && email.accountId !== null) {
+      return this.assignGmailThread(email.accountId, email.gmailThreadId, email.subject);
+    }
+
+    const existing = await this.databaseService.query(`
+      SELECT thread_id FROM emails
+      WHERE account_id IS NOT DISTINCT FROM $1 AND message_id = $2 AND thread_id IS NOT NULL
+    `, [email.accountId, email.messageId]);
+    if (existing.rows.length > 0) {
+      return existing.rows[0].thread_id;
+    }
+
+    const parentIds = Array.from(new Set([...(email.references || []), ...(email.inReplyTo ? [email.inReplyTo] : [])]));
+    const candidates: number[] = [];
+
+    if (parentIds.length > 0) {
+      const parents = await this.databaseService.query(`
+        SELECT thread_id FROM emails
+        WHERE account_id IS NOT DISTINCT FROM $1 AND message_id = ANY($2) AND thread_id IS NOT NULL
+        ORDER BY date DESC
+      `, [email.accountId, parentIds]);
+      candidates.push(...parents.rows.map((row: any) => row.thread_id));
+    }
+
+    const children = await this.databaseService.query(`
+      SELECT thread_id FROM emails
+      WHERE account_id IS NOT DISTINCT FROM $1 AND thread_id IS NOT NULL
+        AND (in_reply_to = $2 OR reference_ids @> ARRAY[$2])
+    `, [email.accountId, email.messageId]);
+    candidates.push(...children.rows.map((row: any) => row.thread_id));
+
+    const normalizedSubject = normalizeSubject(email.subject);
+
+    if (candidates.length === 0 && normalizedSubject && (parentIds.length > 0 || isReplySubject(email.subject))) {
+      const bySubject = await this.findThreadBySubject(email.accountId, normalizedSubject, email.date);
+      if (bySubject) {
+        candidates.push(bySubject);
+      }
+    }
+
+    const threadIds = Array.from(new Set(candidates));
+    if (threadIds.length === 0) {
+      const created = await this.databaseService.query(`
+        INSERT INTO email_threads (account_id, normalized_subject) VALUES ($1, $2) RETURNING id
+      `, [email.accountId, normalizedSubject]);
+      return created.rows[0].id;
+    }
+
+    const [threadId, ...others] = threadIds;
+    if (others.length > 0) {
+      await this.mergeThreads(threadId, others);
+    }
+    return threadId;
+  }
+
+  // The conversation of a Gmail thread id, created on first sight
+  async assignGmailThread(accountId: number, gmailThreadId: string, subject: string): Promise<number> {
+    const result = await this.databaseService.query(`
+      INSERT INTO email_threads (account_id, normalized_subject, gmail_thread_id) VALUES ($1, $2, $3)
+      ON CONFLICT (account_id, gmail_thread_id) WHERE gmail_thread_id IS NOT NULL
+      DO UPDATE SET gmail_thread_id = EXCLUDED.gmail_thread_id
+      RETURNING id
+    `, [accountId, normalizeSubject(subject), gmailThreadId]);
+    return result.rows[0].id;
+  }
+
+  // Thread emails stored before threading existed, oldest first so parents come before replies
+  async threadUnassignedEmails(batchSize: number = 500): Promise<number> {
+    let threaded = 0;
+
+    while (true) {
+      const result = await this.databaseService.query(`
+        SELECT id, public_id, account_id, message_id, subject, date, in_reply_to, reference_ids, gmail_thread_id
+        FROM emails
+        WHERE thread_id IS NULL
+        ORDER BY date ASC
+        LIMIT $1
+      `, [batchSize]);
+
+      if (result.rows.length === 0) {
+        break;
+      }
+
+      for (const row of result.rows) {
+        const threadId = await this.assignThread({
+          accountId: row.account_id,
+          messageId: row.message_id,
+          subject: row.subject,
+          date: row.date,
+          inReplyTo: row.in_reply_to || undefined,
+          references: row.reference_ids || [],
+          gmailThreadId: row.gmail_thread_id || undefined
+        });
+        await this.databaseService.transaction(async (client) => {
+          await client.query(`
+            UPDATE emails SET thread_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2
+          `, [threadId, row.id]);
+          await this.outboxService.enqueue(client, row.public_id, 'index');
+        });
+      }
+
+      threaded += result.rows.length;
+      this.outboxService.dispatchSoon();
+    }
+
+    if (threaded > 0) {
+      logger.info(`Assigned conversations to ${threaded} existing emails`);
+    }
+    return threaded;
+  }
+
+  /**
+   * Page thread ids from one grouped pass over emails, then build the
+   * rollups for that page only. Filters on message fields and on the
+   * rollup (category, unread) are applied while grouping.
+   */
+  async listThreads(filters: ThreadFilters): Promise<{ threads: ThreadSummary[]; totalCount: number }> {
+    const conditions: string[] = [];
+    const groupConditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.accountId) {
+      params.push(filters.accountId);
+      conditions.push(`t.account_id = $${params.length}`);
+    }
+
+    if (filters.folder) {
+      params.push(filters.folder);
+      groupConditions.push(`BOOL_OR(e.folder = $${params.length})`);
+    }
+
+    if (filters.search) {
+      params.push(`%${filters.search}%`);
+      groupConditions.push(`BOOL_OR(
+        e.subject ILIKE $${params.length} OR e.body_text ILIKE $${params.length} OR e.from_name ILIKE $${params.length}
+      )`);
+    }
+
+    // Same choice as the rollup: the latest message not in a Sent folder
+    if (filters.category) {
+      params.push(filters.category);
+      groupConditions.push(`(ARRAY_AGG(e.ai_category ORDER BY (e.folder_role IS NOT DISTINCT FROM 'sent'), e.date DESC))[1] = $${params.length}`);
+    }
+
+    if (filters.isRead !== undefined) {
+      groupConditions.push(filters.isRead ? 'BOOL_AND(e.is_read)' : 'NOT BOOL_AND(e.is_read)');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const having = groupConditions.length > 0 ? `HAVING ${groupConditions.join(' AND ')}` : '';
+    const grouped = `
+      SELECT e.thread_id, MAX(e.date) AS last_message_at
+      FROM emails e
+      JOIN email_threads t ON t.id = e.thread_id
+      ${where}
+      GROUP BY e.thread_id
+      ${having}
+    `;
+
+    const countResult = await this.databaseService.query(`SELECT COUNT(*) FROM (${grouped}) threads`, params);
+
+    const offset = (filters.page - 1) * filters.limit;
+    const page = await this.databaseService.query(`
+      SELECT thread_id FROM (${grouped}) threads
+      ORDER BY last_message_at DESC, thread_id DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, filters.limit, offset]);
+
+    const threadIds = page.rows.map((row: any) => row.thread_id);
+    const result = threadIds.length > 0
+      ? await this.databaseService.query(`${THREAD_SELECT} AND t.id = ANY($1)`, [threadIds])
+      : { rows: [] };
+    const byId = new Map<number, any>(result.rows.map((row: any) => [row.id, row]));
+
+    return {
+      threads: threadIds.filter((id: number) => byId.has(id)).map((id: number) => this.mapThread(byId.get(id))),
+      totalCount: parseInt(countResult.rows[0].count)
+    };
+  }
+
+  async getThread(threadId: number): Promise<ThreadDetail | null> {
+    const result = await this.databaseService.query(`${THREAD_SELECT} AND t.id = $1`, [threadId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const messages = await this.databaseService.query(`
+      SELECT public_id, message_id, account_id, folder, folder_role, subject, from_email, from_name,
+             to_emails, cc_emails, date, body_text, body_html, attachments, labels,
+             ai_category, ai_confidence, is_read, is_important
+      FROM emails
+      WHERE thread_id = $1
+      ORDER BY date ASC
+    `, [threadId]);
+
+    return {
+      ...this.mapThread(result.rows[0]),
+      messages: messages.rows.map((row: any) => this.mapMessage(row))
+    };
+  }
+
+  private async findThreadBySubject(accountId: number | null, normalizedSubject: string, date: string): Promise<number | null> {
+    const windowDays = parseInt(process.env.THREAD_SUBJECT_WINDOW_DAYS || '30');
+
+    const result = await this.databaseService.query(`
+      SELECT t.id
+      FROM email_threads t
+      JOIN emails e ON e.thread_id = t.id
+      WHERE t.account_id IS NOT DISTINCT FROM $1 AND t.normalized_subject = $2
+        AND e.date BETWEEN $3::timestamp - make_interval(days => $4::int) AND $3::timestamp + make_interval(days => $4::int)
+      GROUP BY t.id
+      ORDER BY MAX(e.date) DESC
+      LIMIT 1
+    `, [accountId, normalizedSubject, date, windowDays]);
+
+    return result.rows[0]?.id || null;
+  }
+
+  // A message that links two conversations joins them into its parent's conversation
+  private async mergeThreads(threadId: number, others: number[]): Promise<void> {
+    await this.databaseService.transaction(async (client) => {
+      const moved = await client.query(`
+        UPDATE emails SET thread_id = $1, updated_at = CURRENT_TIMESTAMP
+        WHERE thread_id = ANY($2)
+        RETURNING public_id
+      `, [threadId, others]);
+      await client.query('DELETE FROM email_threads WHERE id = ANY($1)', [others]);
+      await this.outboxService.enqueue(client, moved.rows.map((row: any) => row.public_id), 'index');
+    });
+    this.outboxService.dispatchSoon();
+    logger.debug(`Merged conversations ${others.join(', ')} into ${threadId}`);
+  }
+
+  private mapThread(row: any): ThreadSummary {
+    return {
+      id: row.id,
+      accountId: row.account_id,
+      accountName: row.account_name,
+      subject: row.subject || '',
+      participants: row.participants || [],
+      messageCount: row.message_count,
+      unreadCount: row.unread_count,
+      hasAttachments: row.has_attachments,
+      firstMessageAt: row.first_message_at,
+      lastMessageAt: row.last_message_at,
+      latestEmailId: row.latest_email_id,
+      latestFromName: row.latest_from_name || '',
+      latestFromEmail: row.latest_from_email || '',
+      snippet: row.snippet || '',
+      category: row.category,
+      categoryConfidence: row.category_confidence !== null ? Number(row.category_confidence) : null
+    };
+  }
+
+  private mapMessage(row: any): ThreadMessage {
+    return {
+      id: row.public_id,
+      messageId: row.message_id,
+      accountId: row.account_id,
+      folder: row.folder,
+      folderRole: row.folder_role,
+      subject: row.subject || '',
+      fromEmail: row.from_email || '',
+      fromName: row.from_name || '',
+      toEmails: row.to_emails || [],
+      ccEmails: row.cc_emails || [],
+      date: row.date,
+      bodyText: row.body_text || '',
+      bodyHtml: row.body_html || '',
+      attachments: row.attachments || [],
+      labels: row.labels || [],
+      aiCategory: row.ai_category,
+      aiConfidence: Number(row.ai_confidence),
+      isRead: row.is_read,
+      isImportant: row.is_important
+    };
+  }
+}
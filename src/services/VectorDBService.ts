@@ -75,6 +75,8 @@ export class VectorDBService {
       const metadata = {
         emailId: email.id,
         messageId: email.messageId,
+        // Emails detached from a removed account have none; Chroma metadata can't be null
+        accountId: email.accountId ?? 0,
         subject: email.subject,
         fromEmail: email.fromEmail,
         fromName: email.fromName,
@@ -84,8 +86,8 @@ export class VectorDBService {
         folder: email.folder
       };
 
-      // Add document to collection
-      await this.collection.add({
+      // Upsert so a message seen again under the same id replaces its document
+      await this.collection.upsert({
         ids: [email.id],
         documents: [content],
         metadatas: [metadata]
@@ -95,6 +97,7 @@ export class VectorDBService {
       
     } catch (error) {
       logger.error('Failed to store email in vector database:', error);
+      throw error;
     }
   }
 
@@ -235,7 +238,74 @@ export class VectorDBService {
       
     } catch (error) {
       logger.error('Failed to delete email from vector database:', error);
+      throw error;
+    }
+  }
+
+  // Ids and metadata of every stored email, read a page at a time
+  async listEmails(pageSize: number = 1000): Promise<Array<{ id: string; metadata: any }>> {
+    const emails: Array<{ id: string; metadata: any }> = [];
+    await this.scanEmails(async (page) => {
+      emails.push(...page);
+    }, pageSize);
+    return emails;
+  }
+
+  // Every document's id and metadata, handed over a page at a time
+  async scanEmails(
+    handler: (page: Array<{ id: string; metadata: any }>) => Promise<void>,
+    pageSize: number = 1000
+  ): Promise<void> {
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
+    }
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.collection.get({ limit: pageSize, offset, include: ['metadatas'] });
+      if (page.ids.length > 0) {
+        await handler(page.ids.map((id: string, index: number) => ({ id, metadata: page.metadatas[index] || {} })));
+      }
+      if (page.ids.length < pageSize) break;
+    }
+  }
+
+  // Metadata of the given documents; ids without a document are left out
+  async getEmailsByIds(ids: string[]): Promise<Array<{ id: string; metadata: any }>> {
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
+    }
+    if (ids.length === 0) return [];
+
+    const page = await this.collection.get({ ids, include: ['metadatas'] });
+    return page.ids.map((id: string, index: number) => ({ id, metadata: page.metadatas[index] || {} }));
+  }
+
+  // Move documents, with their embeddings, to new ids
+  async rekeyEmails(moves: Array<{ oldId: string; newId: string }>): Promise<void> {
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
     }
+    if (moves.length === 0) return;
+
+    const existing = await this.collection.get({
+      ids: moves.map(move => move.oldId),
+      include: ['embeddings', 'documents', 'metadatas']
+    });
+    const newIds = new Map(moves.map(move => [move.oldId, move.newId]));
+
+    if (existing.ids.length > 0) {
+      await this.collection.upsert({
+        ids: existing.ids.map((id: string) => newIds.get(id)),
+        embeddings: existing.embeddings,
+        documents: existing.documents,
+        metadatas: existing.metadatas.map((metadata: any, index: number) => ({
+          ...metadata,
+          emailId: newIds.get(existing.ids[index])
+        }))
+      });
+    }
+
+    await this.collection.delete({ ids: moves.map(move => move.oldId) });
   }
 
   async getCollectionStats(): Promise<any> {
@@ -0,0 +1,55 @@
+import pdf from 'pdf-parse';
+import mammoth from 'mammoth';
+import { logger } from './logger';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const TEXT_TYPES = ['text/plain', 'text/csv', 'text/markdown'];
+
+type AttachmentKind = 'pdf' | 'docx' | 'text';
+
+const getKind = (contentType: string = '', filename: string = ''): AttachmentKind | null => {
+  const type = contentType.toLowerCase();
+  const extension = filename.toLowerCase().split('.').pop();
+
+  if (type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (type === DOCX_TYPE || extension === 'docx') return 'docx';
+  if (TEXT_TYPES.includes(type) || extension === 'txt' || extension === 'csv' || extension === 'md') return 'text';
+  return null;
+};
+
+/**
+ * Searchable text of a PDF, DOCX or plain-text attachment. Other types,
+ * files over ATTACHMENT_EXTRACT_MAX_BYTES and unreadable files give null.
+ */
+export const extractAttachmentText = async (
+  content: Buffer,
+  contentType: string,
+  filename: string
+): Promise<string | null> => {
+  const kind = getKind(contentType, filename);
+  const maxBytes = parseInt(process.env.ATTACHMENT_EXTRACT_MAX_BYTES || '10485760');
+
+  if (!kind || content.length === 0 || content.length > maxBytes) {
+    return null;
+  }
+
+  try {
+    let text: string;
+    switch (kind) {
+      case 'pdf':
+        text = (await pdf(content)).text;
+        break;
+      case 'docx':
+        text = (await mammoth.extractRawText({ buffer: content })).value;
+        break;
+      default:
+        text = content.toString('utf8');
+    }
+
+    const maxChars = parseInt(process.env.ATTACHMENT_TEXT_MAX_CHARS || '100000');
+    return text.replace(/\s+/g, ' ').trim().slice(0, maxChars) || null;
+  } catch (error: any) {
+    logger.warn(`Failed to extract text from attachment ${filename}: ${error.message}`);
+    return null;
+  }
+};
@@ -0,0 +1,13 @@
+// Point cid: references in an HTML body at the attachment download route
+export const rewriteCidLinks = (html: string, emailId: string, attachments: any[], baseUrl: string): string => {
+  return html.replace(/cid:([^"'\s)>]+)/gi, (match, cid) => {
+    let contentId: string;
+    try {
+      contentId = decodeURIComponent(cid).replace(/^<|>$/g, '');
+    } catch (error) {
+      return match;
+    }
+    const attachment = attachments.find((att) => att.cid && att.cid.replace(/^<|>$/g, '') === contentId);
+    return attachment ? `${baseUrl}/api/emails/${emailId}/attachments/${attachment.id}` : match;
+  });
+};
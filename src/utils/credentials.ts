@@ -0,0 +1,137 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for account credentials. Each secret is encrypted with
+ * its own random data key, and the data key is wrapped with the key-encryption
+ * key from CREDENTIALS_ENCRYPTION_KEY. Rotating the key only re-wraps data keys.
+ *
+ * Stored format: enc:v1:<keyId>:<wrapped data key>:<encrypted secret>
+ * where both parts are base64 of iv (12) + auth tag (16) + ciphertext.
+ */
+
+const PREFIX = 'enc:v1:';
+const KEY_HINT = 'generate one with `openssl rand -base64 32`';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface KeyRing {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+const parseKey = (id: string, value: string): Buffer => {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error(`Credential key ${id} must be 32 bytes encoded as base64; ${KEY_HINT}`);
+  }
+  return key;
+};
+
+// Read on every call so keys are picked up after dotenv has loaded
+const getKeyRing = (): KeyRing | null => {
+  const activeKey = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!activeKey) {
+    return null;
+  }
+
+  const activeKeyId = process.env.CREDENTIALS_ENCRYPTION_KEY_ID || 'default';
+  const keys = new Map<string, Buffer>([[activeKeyId, parseKey(activeKeyId, activeKey)]]);
+
+  // Retired keys stay readable until `credentials:reencrypt` has run
+  for (const entry of (process.env.CREDENTIALS_PREVIOUS_KEYS || '').split(',')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error('CREDENTIALS_PREVIOUS_KEYS entries must look like <keyId>:<base64 key>');
+    }
+    const id = entry.slice(0, separator).trim();
+    if (!keys.has(id)) {
+      keys.set(id, parseKey(id, entry.slice(separator + 1)));
+    }
+  }
+
+  return { activeKeyId, keys };
+};
+
+const requireKeyRing = (): KeyRing => {
+  const ring = getKeyRing();
+  if (!ring) {
+    throw new Error(`CREDENTIALS_ENCRYPTION_KEY is not set; ${KEY_HINT}`);
+  }
+  return ring;
+};
+
+/**
+ * Fail at startup rather than on the first account write when the key is
+ * missing or malformed, including retired keys in CREDENTIALS_PREVIOUS_KEYS.
+ */
+export const validateCredentialKeys = (): void => {
+  requireKeyRing();
+};
+
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+export const isEncryptedSecret = (value: string | null | undefined): boolean => {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+};
+
+export const encryptSecret = (plaintext: string | null | undefined): string | null => {
+  if (plaintext === null || plaintext === undefined || plaintext === '') {
+    return null;
+  }
+
+  const ring = requireKeyRing();
+  const dataKey = randomBytes(32);
+  const wrappedKey = seal(ring.keys.get(ring.activeKeyId)!, dataKey);
+  const secret = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  return `${PREFIX}${ring.activeKeyId}:${wrappedKey}:${secret}`;
+};
+
+/**
+ * Values written before encryption was introduced are returned unchanged;
+ * `credentials:reencrypt` converts them.
+ */
+export const decryptSecret = (value: string | null | undefined): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const [keyId, wrappedKey, secret] = value.slice(PREFIX.length).split(':');
+  const key = requireKeyRing().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Credential key ${keyId} is not configured`);
+  }
+
+  const dataKey = open(key, wrappedKey);
+  return open(dataKey, secret).toString('utf8');
+};
+
+// True for plaintext values and for values wrapped with a key other than the active one
+export const needsReencryption = (value: string | null | undefined): boolean => {
+  if (value === null || value === undefined || value === '') {
+    return false;
+  }
+  if (!isEncryptedSecret(value)) {
+    return true;
+  }
+
+  const keyId = value.slice(PREFIX.length).split(':')[0];
+  return keyId !== requireKeyRing().activeKeyId;
+};
@@ -0,0 +1,55 @@
+import { EmailDocument } from '../services/ElasticsearchService';
+
+// Loads the `emails` row (aliased `e`) with what `toEmailDocument` needs; add a WHERE clause
+export const EMAIL_DOCUMENT_SELECT = `
+  SELECT e.*, a.name AS account_name
+  FROM emails e
+  LEFT JOIN email_accounts a ON a.id = e.account_id
+`;
+
+/**
+ * The search document of an `emails` row, as indexed in Elasticsearch and
+ * Chroma. Postgres is the source of truth, so search stores are always
+ * rebuilt from this.
+ */
+export const toEmailDocument = (row: any): EmailDocument => {
+  const toIso = (value: any) => (value ? new Date(value).toISOString() : undefined);
+
+  return {
+    id: row.public_id,
+    messageId: row.message_id,
+    accountId: row.account_id,
+    accountName: row.account_name || '',
+    folder: row.folder,
+    folderRole: row.folder_role || undefined,
+    uid: row.uid ? Number(row.uid) : undefined,
+    uidValidity: row.uid_validity ? Number(row.uid_validity) : undefined,
+    rawBlobId: row.raw_blob_id || undefined,
+    threadId: row.thread_id || undefined,
+    inReplyTo: row.in_reply_to || undefined,
+    references: row.reference_ids || undefined,
+    labels: row.labels || undefined,
+    gmailMessageId: row.gmail_msgid || undefined,
+    gmailThreadId: row.gmail_thread_id || undefined,
+    subject: row.subject || '',
+    fromEmail: row.from_email || '',
+    fromName: row.from_name || '',
+    toEmails: row.to_emails || [],
+    ccEmails: row.cc_emails || [],
+    bccEmails: row.bcc_emails || [],
+    date: toIso(row.date)!,
+    receivedDate: toIso(row.received_date) || toIso(row.date)!,
+    size: row.size || 0,
+    flags: row.flags || [],
+    bodyText: row.body_text || '',
+    bodyHtml: row.body_html || '',
+    attachments: Array.isArray(row.attachments) ? row.attachments : [],
+    attachmentText: row.attachment_text || undefined,
+    aiCategory: row.ai_category,
+    aiConfidence: row.ai_confidence !== null ? Number(row.ai_confidence) : 0,
+    isRead: row.is_read,
+    isImportant: row.is_important,
+    createdAt: toIso(row.created_at)!,
+    updatedAt: toIso(row.updated_at)!
+  };
+};
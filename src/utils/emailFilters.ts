@@ -0,0 +1,91 @@
+import { createError } from '../middleware/errorHandler';
+import { FOLDER_ROLES } from './folderRoles';
+
+export interface EmailFilterClause {
+  // "WHERE ..." over `emails e`, or '' when nothing is filtered
+  whereClause: string;
+  params: any[];
+}
+
+/**
+ * The WHERE clause for the `GET /api/emails` query parameters: accountId,
+ * folder, folderRole, label, aiCategory, isRead, isImportant, dateFrom, dateTo and
+ * search. Placeholders start at $1.
+ */
+export const buildEmailFilters = (query: Record<string, any>): EmailFilterClause => {
+  const {
+    accountId,
+    folder,
+    folderRole,
+    label,
+    aiCategory,
+    search,
+    dateFrom,
+    dateTo,
+    isRead,
+    isImportant
+  } = query;
+
+  const whereConditions: string[] = [];
+  const params: any[] = [];
+  let paramCount = 0;
+
+  if (accountId) {
+    whereConditions.push(`e.account_id = $${++paramCount}`);
+    params.push(accountId);
+  }
+
+  if (folder) {
+    whereConditions.push(`e.folder = $${++paramCount}`);
+    params.push(folder);
+  }
+
+  if (folderRole) {
+    if (!FOLDER_ROLES.includes(folderRole as any)) {
+      throw createError('Invalid folder role', 400);
+    }
+    whereConditions.push(`e.folder_role = $${++paramCount}`);
+    params.push(folderRole);
+  }
+
+  if (label) {
+    whereConditions.push(`e.labels @> ARRAY[$${++paramCount}]::text[]`);
+    params.push(label);
+  }
+
+  if (aiCategory) {
+    whereConditions.push(`e.ai_category = $${++paramCount}`);
+    params.push(aiCategory);
+  }
+
+  if (isRead !== undefined) {
+    whereConditions.push(`e.is_read = $${++paramCount}`);
+    params.push(String(isRead) === 'true');
+  }
+
+  if (isImportant !== undefined) {
+    whereConditions.push(`e.is_important = $${++paramCount}`);
+    params.push(String(isImportant) === 'true');
+  }
+
+  if (dateFrom) {
+    whereConditions.push(`e.date >= $${++paramCount}`);
+    params.push(dateFrom);
+  }
+
+  if (dateTo) {
+    whereConditions.push(`e.date <= $${++paramCount}`);
+    params.push(dateTo);
+  }
+
+  if (search) {
+    whereConditions.push(`(e.subject ILIKE $${++paramCount} OR e.body_text ILIKE $${++paramCount} OR e.from_name ILIKE $${++paramCount})`);
+    const searchTerm = `%${search}%`;
+    params.push(searchTerm, searchTerm, searchTerm);
+  }
+
+  return {
+    whereClause: whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '',
+    params
+  };
+};
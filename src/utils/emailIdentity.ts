@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+
+const EMAIL_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface IdentityFields {
+  fromEmail: string;
+  toEmails: string[];
+  date: string;
+  subject: string;
+  bodyText: string;
+}
+
+/**
+ * Hash of the parts of a message that survive being copied between folders,
+ * used in place of a Message-ID when the sender didn't set one.
+ */
+export const computeContentHash = (fields: IdentityFields): string => {
+  return createHash('sha256')
+    .update([
+      fields.fromEmail.toLowerCase(),
+      [...fields.toEmails].map((address) => address.toLowerCase()).sort().join(','),
+      fields.date,
+      fields.subject,
+      fields.bodyText.replace(/\s+/g, ' ').trim()
+    ].join('\n'))
+    .digest('hex');
+};
+
+// Domain of the Message-IDs made up for messages that had none
+const CONTENT_HASH_DOMAIN = 'content-hash';
+
+export const resolveMessageId = (messageId: string | undefined, fields: IdentityFields): string => {
+  return messageId?.trim() || `<${computeContentHash(fields)}@${CONTENT_HASH_DOMAIN}>`;
+};
+
+// A made-up Message-ID was never seen outside this app, so replies can't refer to it
+export const isContentHashId = (messageId: string): boolean => {
+  return messageId.endsWith(`@${CONTENT_HASH_DOMAIN}>`);
+};
+
+/**
+ * Stable id of an email within an account, shared by Postgres, Elasticsearch
+ * and Chroma. It is the MD5 of "<accountId>:<messageId>" in UUID form, which
+ * `md5(account_id || ':' || message_id)::uuid` reproduces in SQL.
+ */
+export const computeEmailId = (accountId: number | null, messageId: string): string => {
+  const hex = createHash('md5').update(`${accountId ?? ''}:${messageId}`).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+export const isEmailId = (value: unknown): value is string => {
+  return typeof value === 'string' && EMAIL_ID_PATTERN.test(value);
+};
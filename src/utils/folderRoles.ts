@@ -0,0 +1,56 @@
+export type FolderRole = 'inbox' | 'sent' | 'drafts' | 'junk' | 'trash' | 'archive' | 'all' | 'flagged' | 'other';
+
+export const FOLDER_ROLES: FolderRole[] = ['inbox', 'sent', 'drafts', 'junk', 'trash', 'archive', 'all', 'flagged', 'other'];
+
+// RFC 6154 special-use attributes
+const SPECIAL_USE_ROLES: Record<string, FolderRole> = {
+  '\\SENT': 'sent',
+  '\\DRAFTS': 'drafts',
+  '\\JUNK': 'junk',
+  '\\TRASH': 'trash',
+  '\\ARCHIVE': 'archive',
+  '\\ALL': 'all',
+  '\\FLAGGED': 'flagged'
+};
+
+// Common mailbox names for servers that don't advertise SPECIAL-USE
+const NAME_ROLES: Record<string, FolderRole> = {
+  'sent': 'sent',
+  'sent items': 'sent',
+  'sent mail': 'sent',
+  'sent messages': 'sent',
+  'drafts': 'drafts',
+  'spam': 'junk',
+  'junk': 'junk',
+  'junk email': 'junk',
+  'junk e-mail': 'junk',
+  'bulk mail': 'junk',
+  'trash': 'trash',
+  'deleted items': 'trash',
+  'deleted messages': 'trash',
+  'bin': 'trash',
+  'archive': 'archive',
+  'archives': 'archive',
+  'all mail': 'all',
+  'starred': 'flagged'
+};
+
+export const resolveFolderRole = (path: string, attribs: string[] = [], delimiter: string = '/'): FolderRole => {
+  if (path.toUpperCase() === 'INBOX') {
+    return 'inbox';
+  }
+
+  for (const attrib of attribs) {
+    const role = SPECIAL_USE_ROLES[attrib.toUpperCase()];
+    if (role) {
+      return role;
+    }
+  }
+
+  const leaf = delimiter ? path.split(delimiter).pop() || path : path;
+  return NAME_ROLES[leaf.toLowerCase()] || 'other';
+};
+
+export const isSelectable = (attribs: string[] = []): boolean => {
+  return !attribs.some(attrib => ['\\NOSELECT', '\\NONEXISTENT'].includes(attrib.toUpperCase()));
+};
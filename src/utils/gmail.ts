@@ -0,0 +1,48 @@
+import { FolderRole } from './folderRoles';
+
+// X-GM-EXT-1 FETCH attributes of a message
+export interface GmailAttributes {
+  messageId: string;
+  threadId: string;
+  labels: string[];
+}
+
+// Gmail's system labels, in the order they decide the role of a message in All Mail
+const LABEL_ROLES: [string, FolderRole][] = [
+  ['\\Inbox', 'inbox'],
+  ['\\Sent', 'sent'],
+  ['\\Draft', 'drafts'],
+  ['\\Spam', 'junk'],
+  ['\\Trash', 'trash']
+];
+
+/**
+ * node-imap adds X-GM-MSGID, X-GM-THRID and X-GM-LABELS to every FETCH when
+ * the server supports X-GM-EXT-1. The ids are 64-bit, so they are kept as
+ * strings; labels that look like numbers come back as numbers.
+ */
+export const readGmailAttributes = (attrs: any): GmailAttributes | null => {
+  if (!attrs?.['x-gm-msgid'] || !attrs['x-gm-thrid']) {
+    return null;
+  }
+
+  return {
+    messageId: String(attrs['x-gm-msgid']),
+    threadId: String(attrs['x-gm-thrid']),
+    labels: (attrs['x-gm-labels'] || []).map(String)
+  };
+};
+
+/**
+ * The role a message in [Gmail]/All Mail would have as a folder copy:
+ * `inbox` while it carries `\Inbox`, `all` once it is archived.
+ */
+export const resolveLabelRole = (labels: string[]): FolderRole => {
+  const normalized = labels.map(label => label.toLowerCase());
+  for (const [label, role] of LABEL_ROLES) {
+    if (normalized.includes(label.toLowerCase())) {
+      return role;
+    }
+  }
+  return 'all';
+};
@@ -0,0 +1,93 @@
+import net from 'net';
+import tls from 'tls';
+import { isAuthenticationError } from '../services/ImapConnectionManager';
+
+export type ConnectionErrorType = 'dns' | 'tls' | 'connection' | 'timeout' | 'auth' | 'unknown';
+
+const DNS_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'ENODATA'];
+const CONNECTION_CODES = ['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE'];
+// node-imap tags its own timeouts with these sources
+const TIMEOUT_SOURCES = ['timeout', 'timeout-auth', 'socket-timeout'];
+
+export const classifyConnectionError = (error: any): ConnectionErrorType => {
+  const code = error?.code || '';
+
+  if (isAuthenticationError(error)) return 'auth';
+  if (DNS_CODES.includes(code)) return 'dns';
+  if (code === 'ETIMEDOUT' || TIMEOUT_SOURCES.includes(error?.source)) return 'timeout';
+  if (code === 'EPROTO' || /^(ERR_TLS|ERR_SSL|CERT_)/.test(code) || /SSL|TLS|certificate/i.test(error?.message || '')) return 'tls';
+  if (CONNECTION_CODES.includes(code)) return 'connection';
+  return 'unknown';
+};
+
+/**
+ * Read the server's pre-authentication CAPABILITY list over a raw socket.
+ * Servers often stop advertising AUTH= mechanisms after login, and failing
+ * here separates DNS, TLS and network problems from bad credentials.
+ */
+export const probeCapabilities = (host: string, port: number, secure: boolean, timeoutMs: number): Promise<string[]> => {
+  return new Promise((resolve, reject) => {
+    // Same certificate policy as the sync connections
+    const socket = secure
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host, rejectUnauthorized: false })
+      : net.connect({ host, port });
+
+    let buffer = '';
+    let greeted = false;
+    let capabilities: string[] = [];
+    let settled = false;
+
+    const finish = (error: any, result?: string[]) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result || []);
+      }
+    };
+
+    const timer = setTimeout(() => {
+      const error: any = new Error(`No response from ${host}:${port} within ${timeoutMs}ms`);
+      error.code = 'ETIMEDOUT';
+      finish(error);
+    }, timeoutMs);
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (!greeted) {
+          greeted = true;
+          if (/^\* BYE/i.test(line)) {
+            finish(new Error(`Server refused the connection: ${line}`));
+            return;
+          }
+          socket.write('a1 CAPABILITY\r\n');
+          continue;
+        }
+
+        const match = /^\* CAPABILITY (.*)$/i.exec(line);
+        if (match) {
+          capabilities = match[1].trim().split(/\s+/);
+        }
+
+        if (/^a1 /i.test(line)) {
+          socket.write('a2 LOGOUT\r\n');
+          finish(null, capabilities);
+          return;
+        }
+      }
+    });
+
+    socket.on('error', (error) => finish(error));
+    socket.on('close', () => finish(new Error(`Connection to ${host}:${port} closed before the server answered`)));
+  });
+};
@@ -1,10 +1,44 @@
 import winston from 'winston';
 
+// Credential fields are masked wherever they appear in log metadata
+const SECRET_KEYS = /^(password|refresh_?token|access_?token|xoauth2|client_?secret|authorization)$/i;
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/g, '$1[REDACTED]'],
+  [/enc:v1:[A-Za-z0-9+/=:_-]+/g, '[REDACTED]']
+];
+
+const redactString = (value: string): string => {
+  return SECRET_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+};
+
+const redactValue = (value: any, depth: number): any => {
+  if (typeof value === 'string') return redactString(value);
+  if (!value || typeof value !== 'object' || depth > 5) return value;
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1));
+  }
+
+  const copy: any = {};
+  for (const key of Object.keys(value)) {
+    copy[key] = SECRET_KEYS.test(key) ? '[REDACTED]' : redactValue(value[key], depth + 1);
+  }
+  return copy;
+};
+
+const redactSecrets = winston.format((info) => {
+  for (const key of Object.keys(info)) {
+    info[key] = SECRET_KEYS.test(key) ? '[REDACTED]' : redactValue(info[key], 0);
+  }
+  return info;
+});
+
 const logFormat = winston.format.combine(
   winston.format.timestamp({
     format: 'YYYY-MM-DD HH:mm:ss'
   }),
   winston.format.errors({ stack: true }),
+  redactSecrets(),
   winston.format.json(),
   winston.format.prettyPrint()
 );
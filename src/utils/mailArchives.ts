@@ -0,0 +1,176 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+
+export interface MaildirMessage {
+  path: string;
+  folder: string;
+  flags: string[];
+}
+
+// Maildir info flags (the letters after ":2,") as IMAP system flags
+const MAILDIR_FLAGS: Record<string, string> = {
+  S: '\\Seen',
+  F: '\\Flagged',
+  R: '\\Answered',
+  D: '\\Draft',
+  T: '\\Deleted'
+};
+
+const isBlankLine = (line: Buffer): boolean => {
+  return line.length === 1 ? line[0] === 0x0a : line.length === 2 && line[0] === 0x0d && line[1] === 0x0a;
+};
+
+// Split a file into lines without decoding it; each line keeps its terminator
+async function* readLines(filePath: string): AsyncGenerator<Buffer> {
+  let pending: Buffer = Buffer.alloc(0);
+
+  for await (const chunk of createReadStream(filePath)) {
+    const buffer = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : chunk as Buffer;
+    let start = 0;
+    let end: number;
+    while ((end = buffer.indexOf(0x0a, start)) !== -1) {
+      yield buffer.subarray(start, end + 1);
+      start = end + 1;
+    }
+    pending = buffer.subarray(start);
+  }
+
+  if (pending.length > 0) {
+    yield pending;
+  }
+}
+
+/**
+ * Messages of an mbox file, one raw RFC 822 message at a time. A "From "
+ * line at the start of the file or after a blank line starts a message;
+ * quoted ">From " lines in bodies are unquoted (mboxrd).
+ */
+export async function* readMbox(filePath: string): AsyncGenerator<Buffer> {
+  let message: Buffer[] | null = null;
+  let previousBlank = true;
+
+  const finish = (lines: Buffer[]): Buffer => {
+    // The blank line before the next "From " separates messages
+    if (lines.length > 0 && isBlankLine(lines[lines.length - 1])) {
+      lines.pop();
+    }
+    return Buffer.concat(lines);
+  };
+
+  for await (const line of readLines(filePath)) {
+    if (previousBlank && line.subarray(0, 5).toString('latin1') === 'From ') {
+      if (message && message.length > 0) {
+        yield finish(message);
+      }
+      message = [];
+      previousBlank = false;
+      continue;
+    }
+
+    if (message) {
+      message.push(/^>+From /.test(line.subarray(0, 64).toString('latin1')) ? line.subarray(1) : line);
+    }
+    previousBlank = isBlankLine(line);
+  }
+
+  if (message && message.length > 0) {
+    yield finish(message);
+  }
+}
+
+export const isMboxFile = async (filePath: string): Promise<boolean> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(5), 0, 5, 0);
+    return bytesRead === 5 && buffer.toString('latin1') === 'From ';
+  } finally {
+    await handle.close();
+  }
+};
+
+const isDirectory = async (dirPath: string): Promise<boolean> => {
+  try {
+    return (await fs.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+export const isMaildir = async (dirPath: string): Promise<boolean> => {
+  return await isDirectory(path.join(dirPath, 'cur')) && await isDirectory(path.join(dirPath, 'new'));
+};
+
+export const parseMaildirFlags = (filename: string): string[] => {
+  const match = filename.match(/[:;!]2,([A-Za-z]*)$/);
+  if (!match) {
+    return [];
+  }
+  return Array.from(new Set(match[1].split('').map(letter => MAILDIR_FLAGS[letter]).filter(Boolean)));
+};
+
+/**
+ * Message files of a Maildir and its subfolders. Maildir++ folders
+ * (".Sent", ".Clients.Acme") and nested Maildirs ("Sent") are both read;
+ * the top level is INBOX. Messages in new/ are unread.
+ */
+export async function* readMaildir(root: string): AsyncGenerator<MaildirMessage> {
+  const folders: Array<{ dir: string; folder: string }> = [{ dir: root, folder: 'INBOX' }];
+
+  const walk = async (dir: string, prefix: string[]) => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory() || ['cur', 'new', 'tmp'].includes(entry.name)) continue;
+
+      const child = path.join(dir, entry.name);
+      const segments = entry.name.startsWith('.')
+        ? entry.name.slice(1).split('.').filter(Boolean)
+        : [...prefix, entry.name];
+      if (segments.length === 0) continue;
+
+      if (await isMaildir(child)) {
+        folders.push({ dir: child, folder: segments.join('/') });
+      }
+      if (!entry.name.startsWith('.')) {
+        await walk(child, segments);
+      }
+    }
+  };
+  await walk(root, []);
+
+  for (const { dir, folder } of folders) {
+    for (const sub of ['cur', 'new']) {
+      const files = (await fs.readdir(path.join(dir, sub), { withFileTypes: true }))
+        .filter(entry => entry.isFile())
+        .map(entry => entry.name)
+        .sort();
+
+      for (const name of files) {
+        yield {
+          path: path.join(dir, sub, name),
+          folder,
+          flags: sub === 'cur' ? parseMaildirFlags(name) : []
+        };
+      }
+    }
+  }
+}
+
+const ASCTIME_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ASCTIME_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * One message as it appears in an mbox file: the "From " separator line,
+ * the message with "From " lines quoted (mboxrd) and a trailing blank line.
+ * `readMbox` reads it back unchanged.
+ */
+export const toMboxEntry = (raw: Buffer, sender: string, date: Date): Buffer => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const asctime = `${ASCTIME_DAYS[date.getUTCDay()]} ${ASCTIME_MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`;
+  const envelopeSender = sender.replace(/\s+/g, '') || 'MAILER-DAEMON';
+
+  // latin1 maps bytes one to one, so 8-bit content survives the round trip
+  const body = raw.toString('latin1').replace(/^(>*From )/gm, '>$1');
+  const terminator = body.endsWith('\n') ? '\n' : '\n\n';
+
+  return Buffer.from(`From ${envelopeSender} ${asctime}\n${body}${terminator}`, 'latin1');
+};
@@ -0,0 +1,76 @@
+import { randomBytes } from 'crypto';
+import { EmailDocument } from '../services/ElasticsearchService';
+
+// Non-ASCII header text as RFC 2047 encoded words, short enough to stay within a header line
+const encodeHeaderText = (value: string): string => {
+  if (!/[^\x20-\x7e]/.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  const characters = Array.from(value);
+  for (let i = 0; i < characters.length; i += 15) {
+    words.push(`=?UTF-8?B?${Buffer.from(characters.slice(i, i + 15).join(''), 'utf8').toString('base64')}?=`);
+  }
+  return words.join('\r\n ');
+};
+
+const formatAddress = (name: string, address: string): string => {
+  if (!name) {
+    return address;
+  }
+  const displayName = /[^\x20-\x7e]/.test(name) ? encodeHeaderText(name) : `"${name.replace(/(["\\])/g, '\\$1')}"`;
+  return `${displayName} <${address}>`;
+};
+
+const formatMessageId = (id: string): string => (id.startsWith('<') ? id : `<${id}>`);
+
+const base64Lines = (text: string): string => {
+  return (Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+};
+
+/**
+ * An RFC 822 message rebuilt from the stored fields, for emails synced
+ * before raw sources were kept. Headers beyond the stored ones and
+ * attachments are not part of it.
+ */
+export const composeRawMessage = (email: EmailDocument): Buffer => {
+  const headers = [
+    `From: ${formatAddress(email.fromName, email.fromEmail)}`,
+    email.toEmails.length > 0 ? `To: ${email.toEmails.join(', ')}` : null,
+    email.ccEmails.length > 0 ? `Cc: ${email.ccEmails.join(', ')}` : null,
+    `Subject: ${encodeHeaderText(email.subject)}`,
+    `Date: ${new Date(email.date).toUTCString()}`,
+    email.messageId ? `Message-ID: ${formatMessageId(email.messageId)}` : null,
+    email.inReplyTo ? `In-Reply-To: ${formatMessageId(email.inReplyTo)}` : null,
+    email.references && email.references.length > 0 ? `References: ${email.references.map(formatMessageId).join(' ')}` : null,
+    'MIME-Version: 1.0'
+  ].filter(Boolean);
+
+  const part = (contentType: string, content: string) => [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(content)
+  ].join('\r\n');
+
+  let body: string;
+  if (email.bodyHtml && email.bodyText) {
+    const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+    headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+    body = [
+      '',
+      `--${boundary}`,
+      part('text/plain', email.bodyText),
+      `--${boundary}`,
+      part('text/html', email.bodyHtml),
+      `--${boundary}--`,
+      ''
+    ].join('\r\n');
+  } else {
+    headers.push(`Content-Type: ${email.bodyHtml ? 'text/html' : 'text/plain'}; charset=utf-8`, 'Content-Transfer-Encoding: base64');
+    body = `\r\n${base64Lines(email.bodyHtml || email.bodyText)}\r\n`;
+  }
+
+  return Buffer.from(`${headers.join('\r\n')}\r\n${body}`, 'utf8');
+};
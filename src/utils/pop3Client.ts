@@ -0,0 +1,218 @@
+import net from 'net';
+import tls from 'tls';
+
+export interface Pop3ClientOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  timeoutMs: number;
+}
+
+export interface Pop3Message {
+  number: number;
+  uidl: string;
+}
+
+interface PendingCommand {
+  multiline: boolean;
+  status: string | null;
+  resolve: (result: { status: string; body: Buffer }) => void;
+  reject: (error: Error) => void;
+}
+
+const TERMINATOR = Buffer.from('\r\n.\r\n');
+const EMPTY_BODY = Buffer.from('.\r\n');
+
+/**
+ * Minimal POP3 client (RFC 1939) for retrieving mail: CAPA, STLS, USER/PASS,
+ * UIDL, RETR, DELE and QUIT. Message bodies are returned as raw bytes with
+ * dot-stuffing removed. Deletions only take effect when QUIT succeeds.
+ */
+export class Pop3Client {
+  private options: Pop3ClientOptions;
+  private socket: net.Socket | null = null;
+  private chunks: Buffer[] = [];
+  private pending: PendingCommand | null = null;
+
+  constructor(options: Pop3ClientOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Connect, read the greeting and upgrade with STLS when the connection is
+   * not already TLS and the server offers it. Returns the CAPA list.
+   */
+  async connect(): Promise<string[]> {
+    const { host, port, secure } = this.options;
+    // Same certificate policy as the IMAP connections
+    const tlsOptions = { servername: net.isIP(host) ? undefined : host, rejectUnauthorized: false };
+
+    const greeting = this.expect(false);
+    this.attach(secure ? tls.connect({ host, port, ...tlsOptions }) : net.connect({ host, port }));
+    await greeting;
+
+    let capabilities = await this.capabilities();
+    if (!secure && capabilities.includes('STLS')) {
+      await this.command('STLS');
+      const plain = this.socket!;
+      plain.removeAllListeners('data');
+      await new Promise<void>((resolve, reject) => {
+        const upgraded = tls.connect({ socket: plain, ...tlsOptions }, () => resolve());
+        upgraded.once('error', reject);
+        this.attach(upgraded);
+      });
+      capabilities = await this.capabilities();
+    }
+
+    return capabilities;
+  }
+
+  async login(username: string, password: string): Promise<void> {
+    try {
+      await this.command(`USER ${username}`);
+      await this.command(`PASS ${password}`);
+    } catch (error: any) {
+      // Tagged like node-imap login failures so isAuthenticationError recognizes it
+      if (error.pop3Status) {
+        error.source = 'authentication';
+      }
+      throw error;
+    }
+  }
+
+  // Message numbers with their unique ids; throws if the server has no UIDL
+  async listUidls(): Promise<Pop3Message[]> {
+    const { body } = await this.command('UIDL', true);
+    return body.toString('latin1').split('\r\n').filter(Boolean).map((line) => {
+      const [number, uidl] = line.split(' ');
+      return { number: Number(number), uidl };
+    });
+  }
+
+  async retrieve(messageNumber: number): Promise<Buffer> {
+    const { body } = await this.command(`RETR ${messageNumber}`, true);
+    // latin1 maps bytes one to one, so 8-bit content survives unstuffing
+    return Buffer.from(body.toString('latin1').replace(/^\.\./gm, '.'), 'latin1');
+  }
+
+  async delete(messageNumber: number): Promise<void> {
+    await this.command(`DELE ${messageNumber}`);
+  }
+
+  async quit(): Promise<void> {
+    try {
+      await this.command('QUIT');
+    } finally {
+      this.close();
+    }
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  private async capabilities(): Promise<string[]> {
+    try {
+      const { body } = await this.command('CAPA', true);
+      return body.toString('latin1').split('\r\n').filter(Boolean).map(line => line.split(' ')[0].toUpperCase());
+    } catch (error: any) {
+      // CAPA is optional (RFC 2449)
+      if (error.pop3Status) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private command(line: string, multiline: boolean = false): Promise<{ status: string; body: Buffer }> {
+    if (!this.socket) {
+      return Promise.reject(new Error('POP3 connection is closed'));
+    }
+    const response = this.expect(multiline);
+    this.socket.write(`${line}\r\n`);
+    return response;
+  }
+
+  private expect(multiline: boolean): Promise<{ status: string; body: Buffer }> {
+    return new Promise((resolve, reject) => {
+      this.chunks = [];
+      this.pending = { multiline, status: null, resolve, reject };
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.options.timeoutMs, () => {
+      const error: any = new Error('POP3 connection timed out');
+      error.code = 'ETIMEDOUT';
+      socket.destroy(error);
+    });
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('POP3 connection closed')));
+  }
+
+  private receive(chunk: Buffer): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.chunks.push(chunk);
+
+    if (pending.status === null) {
+      const data = Buffer.concat(this.chunks);
+      const lineEnd = data.indexOf('\r\n');
+      if (lineEnd === -1) {
+        this.chunks = [data];
+        return;
+      }
+
+      pending.status = data.subarray(0, lineEnd).toString('utf8');
+      if (!pending.status.startsWith('+OK')) {
+        const error: any = new Error(`POP3 server replied: ${pending.status}`);
+        error.pop3Status = pending.status;
+        this.settle().reject(error);
+        return;
+      }
+      if (!pending.multiline) {
+        this.settle().resolve({ status: pending.status, body: Buffer.alloc(0) });
+        return;
+      }
+      this.chunks = [data.subarray(lineEnd + 2)];
+    }
+
+    // The server sends nothing after the terminating "." line, so it is always at the end
+    const tail = this.tail(TERMINATOR.length);
+    const length = this.chunks.reduce((sum, part) => sum + part.length, 0);
+    if (length === EMPTY_BODY.length && tail.equals(EMPTY_BODY)) {
+      this.settle().resolve({ status: pending.status, body: Buffer.alloc(0) });
+    } else if (tail.equals(TERMINATOR)) {
+      const body = Buffer.concat(this.chunks);
+      this.settle().resolve({ status: pending.status, body: body.subarray(0, body.length - EMPTY_BODY.length) });
+    }
+  }
+
+  // The last `size` bytes received, which may span chunks
+  private tail(size: number): Buffer {
+    const parts: Buffer[] = [];
+    let remaining = size;
+    for (let i = this.chunks.length - 1; i >= 0 && remaining > 0; i--) {
+      const part = this.chunks[i];
+      parts.unshift(part.subarray(Math.max(0, part.length - remaining)));
+      remaining -= part.length;
+    }
+    return Buffer.concat(parts);
+  }
+
+  private settle(): PendingCommand {
+    const pending = this.pending!;
+    this.pending = null;
+    this.chunks = [];
+    return pending;
+  }
+
+  private fail(error: Error): void {
+    if (this.pending) {
+      this.settle().reject(error);
+    }
+  }
+}
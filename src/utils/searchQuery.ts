@@ -0,0 +1,82 @@
+export interface AdvancedSearchRequest {
+  query: {
+    text?: string;
+    fields?: string[];
+    type?: string;
+    fuzziness?: string | number;
+  };
+  filters?: Record<string, any>;
+  sort?: Record<string, any>;
+}
+
+/**
+ * The Elasticsearch query and sort for a `POST /api/search/advanced` body,
+ * without paging.
+ */
+export const buildAdvancedSearchQuery = (request: AdvancedSearchRequest): { query: any; sort: any[] } => {
+  const {
+    query,
+    filters = {},
+    sort = { date: { order: 'desc' } }
+  } = request;
+
+  const filter: any[] = [];
+
+  if (filters.accountId) {
+    filter.push({ term: { accountId: filters.accountId } });
+  }
+
+  if (filters.folder) {
+    filter.push({ term: { folder: filters.folder } });
+  }
+
+  if (filters.folderRole) {
+    filter.push({ term: { folderRole: filters.folderRole } });
+  }
+
+  if (filters.label) {
+    filter.push({ term: { labels: filters.label } });
+  }
+
+  if (filters.aiCategory) {
+    filter.push({ term: { aiCategory: filters.aiCategory } });
+  }
+
+  if (filters.dateRange) {
+    filter.push({
+      range: {
+        date: {
+          gte: filters.dateRange.from,
+          lte: filters.dateRange.to
+        }
+      }
+    });
+  }
+
+  if (filters.isRead !== undefined) {
+    filter.push({ term: { isRead: filters.isRead } });
+  }
+
+  if (filters.isImportant !== undefined) {
+    filter.push({ term: { isImportant: filters.isImportant } });
+  }
+
+  return {
+    query: {
+      bool: {
+        must: [
+          {
+            multi_match: {
+              query: query.text || '',
+              fields: query.fields || ['subject^2', 'bodyText', 'attachmentText', 'fromName', 'fromEmail'],
+              type: query.type || 'best_fields',
+              fuzziness: query.fuzziness || 'AUTO'
+            }
+          }
+        ],
+        filter
+      }
+    },
+    sort: [sort]
+  };
+};
@@ -0,0 +1,35 @@
+// Reply and forward prefixes in the languages our customers write in, e.g. "Re:", "RE[2]:", "Fwd:", "AW:", "SV:"
+const SUBJECT_PREFIX = /^\s*(?:(?:re|fwd?|aw|wg|sv|vs|antw|rif|tr|enc|odp|r)\s*(?:\[\d+\]|\(\d+\))?\s*:|\[[^\]]*\])\s*/i;
+const REPLY_PREFIX = /^\s*(?:\[[^\]]*\]\s*)*(?:re|fwd?|aw|wg|sv|vs|antw|rif|tr|enc|odp|r)\s*(?:\[\d+\]|\(\d+\))?\s*:/i;
+
+/**
+ * Subject with reply/forward prefixes and list tags removed, lower-cased so
+ * "Re: [sales] Pricing" and "pricing" land in the same conversation.
+ */
+export const normalizeSubject = (subject: string | null | undefined): string => {
+  let normalized = (subject || '').trim();
+  let previous: string;
+  do {
+    previous = normalized;
+    normalized = normalized.replace(SUBJECT_PREFIX, '');
+  } while (normalized !== previous);
+
+  return normalized.replace(/\s+/g, ' ').trim().toLowerCase();
+};
+
+export const isReplySubject = (subject: string | null | undefined): boolean => {
+  return REPLY_PREFIX.test(subject || '');
+};
+
+// Message-IDs from an In-Reply-To or References header, in header order
+export const parseMessageIds = (value: string | string[] | null | undefined): string[] => {
+  if (!value) {
+    return [];
+  }
+
+  const text = Array.isArray(value) ? value.join(' ') : value;
+  const bracketed = text.match(/<[^<>\s]+>/g);
+  const ids = bracketed || text.split(/[\s,]+/).filter(Boolean).map((id) => `<${id.replace(/^<|>$/g, '')}>`);
+
+  return Array.from(new Set(ids));
+};